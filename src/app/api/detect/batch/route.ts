@@ -0,0 +1,126 @@
+import { NextRequest } from 'next/server';
+import { corsHeaders, createCorsResponse, handleCorsPreflight } from '../../utils/cors';
+import { parseTargetUrl, toErrorBody } from '../../utils/fetchHtml';
+import { detectAuthForms, internalErrorResult, readDetectOptions, toDetectBody } from '../../utils/detect';
+import { BATCH_LIMITS, clampOption, runPoliteBatch } from '../../utils/batch';
+import { enforceClientRateLimit } from '../../utils/rateLimit';
+
+interface BatchItem {
+  index: number;
+  url: URL;
+}
+
+// Handle preflight requests
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreflight();
+}
+
+// Runs detection on a list of URLs and streams one result per URL as soon as
+// it finishes, as NDJSON (default) or Server-Sent Events (`format: "sse"`).
+// Each result carries the same body and status a single /api/detect call would.
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return createCorsResponse({ error: 'Invalid JSON body', code: 'INVALID_REQUEST' }, 400);
+  }
+
+  const { urls, format = 'ndjson' } = body || {};
+
+  if (!Array.isArray(urls) || urls.length === 0) {
+    return createCorsResponse({ error: 'urls must be a non-empty array', code: 'INVALID_REQUEST' }, 400);
+  }
+
+  if (urls.length > BATCH_LIMITS.maxUrls) {
+    return createCorsResponse({ error: `A batch can contain at most ${BATCH_LIMITS.maxUrls} URLs`, code: 'INVALID_REQUEST' }, 400);
+  }
+
+  if (format !== 'ndjson' && format !== 'sse') {
+    return createCorsResponse({ error: 'format must be "ndjson" or "sse"', code: 'INVALID_REQUEST' }, 400);
+  }
+
+  const detectOptions = readDetectOptions(body);
+
+  // Every URL in the batch counts against the client's limit, plus the pages
+  // discovery may fetch after each one
+  const rateLimited = await enforceClientRateLimit(request, urls.length * (1 + (detectOptions.discover?.maxPages ?? 0)));
+  if (rateLimited) {
+    return rateLimited;
+  }
+
+  const concurrency = clampOption(body.concurrency, BATCH_LIMITS.defaultConcurrency, 1, BATCH_LIMITS.maxConcurrency);
+  const hostDelayMs = clampOption(body.hostDelayMs, BATCH_LIMITS.defaultHostDelayMs, 0, BATCH_LIMITS.maxHostDelayMs);
+
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let succeeded = 0;
+      let failed = 0;
+
+      const send = (event: string, payload: object) => {
+        if (cancelled) {
+          return;
+        }
+        const chunk = format === 'sse'
+          ? `event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`
+          : `${JSON.stringify(payload)}\n`;
+        controller.enqueue(encoder.encode(chunk));
+      };
+
+      // Invalid URLs fail straight away; the rest go through the scheduler
+      const items: BatchItem[] = [];
+      urls.forEach((url: unknown, index: number) => {
+        const target = parseTargetUrl(url);
+        if ('error' in target) {
+          failed++;
+          send('result', { index, url, status: 400, body: { error: target.error, code: 'INVALID_URL' } });
+        } else {
+          items.push({ index, url: target.url });
+        }
+      });
+
+      try {
+        await runPoliteBatch(
+          items,
+          item => item.url.host,
+          item => detectAuthForms(item.url, detectOptions),
+          internalErrorResult,
+          (item, result) => {
+            if (result.ok) {
+              succeeded++;
+              send('result', { index: item.index, url: urls[item.index], status: 200, body: toDetectBody(result) });
+            } else {
+              failed++;
+              send('result', { index: item.index, url: urls[item.index], status: result.status, body: toErrorBody(result, detectOptions.debug) });
+            }
+          },
+          { concurrency, hostDelayMs, isCancelled: () => cancelled }
+        );
+
+        send('done', { done: true, total: urls.length, succeeded, failed });
+      } catch (error) {
+        console.error('Error running batch detection:', error);
+        send('error', { error: 'An unexpected error occurred', code: 'INTERNAL_ERROR' });
+      }
+
+      if (!cancelled) {
+        controller.close();
+      }
+    },
+    cancel() {
+      // The client went away: stop scheduling new URLs
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': format === 'sse' ? 'text/event-stream' : 'application/x-ndjson',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { createCorsResponse, handleCorsPreflight } from '../utils/cors';
+import { parseTargetUrl, toErrorBody, toErrorHeaders } from '../utils/fetchHtml';
+import { enforceClientRateLimit } from '../utils/rateLimit';
+import { detectAuthForms, readDetectOptions, toDetectBody } from '../utils/detect';
+
+// Handle preflight requests
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreflight();
+}
+
+// Fetches a page and runs auth form detection on the server, so scripts and
+// backend jobs can call detection without a browser
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { url } = body;
+
+    // Validate URL format
+    const target = parseTargetUrl(url);
+    if ('error' in target) {
+      return createCorsResponse({ error: target.error, code: 'INVALID_URL' }, 400);
+    }
+
+    const options = readDetectOptions(body);
+
+    // Discovery may fetch up to `maxPages` more pages after the start page
+    const rateLimited = await enforceClientRateLimit(request, 1 + (options.discover?.maxPages ?? 0));
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    const result = await detectAuthForms(target.url, options);
+
+    if (!result.ok) {
+      return createCorsResponse(toErrorBody(result, options.debug), result.status, toErrorHeaders(result));
+    }
+
+    return createCorsResponse(toDetectBody(result));
+
+  } catch (error) {
+    console.error('Error detecting auth forms:', error);
+
+    return createCorsResponse(
+      { error: 'An unexpected error occurred', code: 'INTERNAL_ERROR' },
+      500
+    );
+  }
+}
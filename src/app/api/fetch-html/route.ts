@@ -1,5 +1,9 @@
 import { NextRequest } from 'next/server';
-import { corsHeaders, createCorsResponse, handleCorsPreflight } from '../utils/cors';
+import { createCorsResponse, handleCorsPreflight } from '../utils/cors';
+import { fetchHtml, parseTargetUrl, toErrorBody, toErrorHeaders } from '../utils/fetchHtml';
+import { enforceClientRateLimit } from '../utils/rateLimit';
+import { detectAuthForms } from '../utils/detect';
+import { readDiscoveryLimits } from '../utils/discovery';
 
 // Handle preflight requests
 export async function OPTIONS(request: NextRequest) {
@@ -8,162 +12,88 @@ export async function OPTIONS(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const { url } = await request.json();
-
-    if (!url) {
-      return createCorsResponse({ error: 'URL is required' }, 400);
-    }
+    const { url, discover, forceRefresh = false, profile, debug = false, respectRobots = false } = await request.json();
+    // With `debug`, responses carry the trace of every fetch attempt
+    const includeAttempts = debug === true;
+    const profileName = typeof profile === 'string' ? profile : undefined;
 
     // Validate URL format
-    let validUrl: URL;
-    try {
-      validUrl = new URL(url);
-    } catch {
-      return createCorsResponse({ error: 'Invalid URL format' }, 400);
+    const target = parseTargetUrl(url);
+    if ('error' in target) {
+      return createCorsResponse({ error: target.error, code: 'INVALID_URL' }, 400);
     }
 
-    // Generate a realistic browser user agent
-    const userAgents = [
-      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:121.0) Gecko/20100101 Firefox/121.0',
-      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Safari/605.1.15'
-    ];
-    
-    const randomUserAgent = userAgents[Math.floor(Math.random() * userAgents.length)];
-
-    // Try multiple approaches to bypass browser detection
-    const fetchAttempts: Array<{headers: Record<string, string>}> = [
-      // Attempt 1: Full browser headers
-      {
-        headers: {
-          'User-Agent': randomUserAgent,
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7',
-          'Accept-Language': 'en-US,en;q=0.9',
-          'Accept-Encoding': 'gzip, deflate, br',
-          'DNT': '1',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1',
-          'Sec-Fetch-Dest': 'document',
-          'Sec-Fetch-Mode': 'navigate',
-          'Sec-Fetch-Site': 'none',
-          'Sec-Fetch-User': '?1',
-          'Cache-Control': 'max-age=0',
-          'sec-ch-ua': '"Not_A Brand";v="8", "Chromium";v="120", "Google Chrome";v="120"',
-          'sec-ch-ua-mobile': '?0',
-          'sec-ch-ua-platform': '"Windows"'
-        }
-      },
-      // Attempt 2: Minimal headers (some sites prefer this)
-      {
-        headers: {
-          'User-Agent': randomUserAgent,
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.9'
-        }
-      },
-      // Attempt 3: Different user agent
-      {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
-        }
-      }
-    ];
-
-    let response: Response | null = null;
-    let lastError: Error | null = null;
-
-    // Try each approach until one succeeds
-    for (const attempt of fetchAttempts) {
-      try {
-        response = await fetch(validUrl.toString(), {
-          method: 'GET',
-          ...attempt,
-          signal: AbortSignal.timeout(15000),
-        });
-
-        // Check if we got a successful response
-        if (response.ok) {
-          break;
-        }
+    // Discovery mode: when the page has no auth form, return the HTML of the
+    // login page found by following its "Sign in" links instead
+    const discoveryLimits = readDiscoveryLimits(discover);
 
-        // If we got an incompatible browser response, try next approach
-        const responseText = await response.text();
-        if (responseText.includes('incompatible-browser') || 
-            responseText.includes('browser not supported') ||
-            responseText.includes('please use a modern browser')) {
-          response = null;
-          continue;
-        }
-
-        // If it's a different error, break and handle it
-        break;
-      } catch (error) {
-        lastError = error as Error;
-        response = null;
-        continue;
-      }
+    // Discovery may fetch up to `maxPages` more pages after the start page
+    const rateLimited = await enforceClientRateLimit(request, 1 + (discoveryLimits?.maxPages ?? 0));
+    if (rateLimited) {
+      return rateLimited;
     }
 
-    if (!response) {
-      return createCorsResponse(
-        { error: `Failed to fetch URL: ${lastError?.message || 'All fetch attempts failed'}` },
-        500
-      );
-    }
+    if (discoveryLimits) {
+      const detection = await detectAuthForms(target.url, {
+        includeHtml: true,
+        discover: discoveryLimits,
+        forceRefresh: forceRefresh === true,
+        profile: profileName,
+        debug: includeAttempts,
+        respectRobots: respectRobots === true,
+      });
+
+      if (!detection.ok) {
+        return createCorsResponse(toErrorBody(detection, includeAttempts), detection.status, toErrorHeaders(detection));
+      }
 
-    if (!response.ok) {
-      return createCorsResponse(
-        { 
-          error: `Failed to fetch URL: ${response.status} ${response.statusText}`,
-          status: response.status 
-        },
-        response.status
-      );
+      return createCorsResponse({
+        html: detection.html,
+        url: detection.url,
+        finalUrl: detection.fetch.finalUrl,
+        redirectChain: detection.fetch.redirectChain,
+        status: detection.fetch.status,
+        contentType: detection.fetch.contentType,
+        contentLength: detection.fetch.contentLength,
+        charset: detection.fetch.charset,
+        truncated: detection.fetch.truncated,
+        cache: detection.fetch.cache,
+        profile: detection.fetch.profile,
+        attempts: detection.fetch.attempts,
+        discovery: detection.discovery,
+      });
     }
 
-    const html = await response.text();
-    const contentType = response.headers.get('content-type') || '';
+    const result = await fetchHtml(target.url, {
+      forceRefresh: forceRefresh === true,
+      profile: profileName,
+      respectRobots: respectRobots === true,
+    });
 
-    // Check if the response is actually HTML
-    if (!contentType.includes('text/html')) {
-      return createCorsResponse(
-        { 
-          error: 'URL does not return HTML content',
-          contentType 
-        },
-        400
-      );
+    if (!result.ok) {
+      return createCorsResponse(toErrorBody(result, includeAttempts), result.status, toErrorHeaders(result));
     }
 
     return createCorsResponse({
-      html,
-      url: validUrl.toString(),
-      status: response.status,
-      contentType,
-      contentLength: html.length,
+      html: result.html,
+      url: result.url,
+      finalUrl: result.finalUrl,
+      redirectChain: result.redirectChain,
+      status: result.status,
+      contentType: result.contentType,
+      contentLength: result.contentLength,
+      charset: result.charset,
+      truncated: result.truncated,
+      cache: result.cache,
+      profile: result.profile,
+      attempts: includeAttempts ? result.attempts : undefined,
     });
 
   } catch (error) {
     console.error('Error fetching HTML:', error);
-    
-    if (error instanceof Error) {
-      if (error.name === 'AbortError') {
-        return createCorsResponse(
-          { error: 'Request timeout - URL took too long to respond' },
-          408
-        );
-      }
-      
-      return createCorsResponse(
-        { error: `Failed to fetch URL: ${error.message}` },
-        500
-      );
-    }
 
     return createCorsResponse(
-      { error: 'An unexpected error occurred' },
+      { error: 'An unexpected error occurred', code: 'INTERNAL_ERROR' },
       500
     );
   }
@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server';
+import { createCorsResponse, handleCorsPreflight } from '../utils/cors';
+import { parseTargetUrl, toErrorBody, toErrorHeaders } from '../utils/fetchHtml';
+import { clampOption } from '../utils/batch';
+import { enforceClientRateLimit } from '../utils/rateLimit';
+import { FLOW_LIMITS, runIdentifierFlow } from '../utils/identifierFlow';
+
+// Handle preflight requests
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreflight();
+}
+
+// Follows an identifier-first login (email first, password later) step by
+// step with a dummy identifier and returns the forms found on each step
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const target = parseTargetUrl(body.url);
+    if ('error' in target) {
+      return createCorsResponse({ error: target.error, code: 'INVALID_URL' }, 400);
+    }
+
+    const maxSteps = clampOption(body.maxSteps, FLOW_LIMITS.defaultMaxSteps, 1, FLOW_LIMITS.maxSteps);
+
+    // Every step may fetch a page
+    const rateLimited = await enforceClientRateLimit(request, maxSteps);
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    const result = await runIdentifierFlow(target.url, {
+      maxSteps,
+      profile: typeof body.profile === 'string' ? body.profile : undefined,
+      respectRobots: body.respectRobots === true,
+    });
+
+    if (!result.ok) {
+      return createCorsResponse(toErrorBody(result), result.status, toErrorHeaders(result));
+    }
+
+    const { ok, ...report } = result;
+    return createCorsResponse(report);
+
+  } catch (error) {
+    console.error('Error following identifier flow:', error);
+
+    return createCorsResponse(
+      { error: 'An unexpected error occurred', code: 'INTERNAL_ERROR' },
+      500
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server';
+import { createCorsResponse, handleCorsPreflight } from '../utils/cors';
+import { readDetectOptions } from '../utils/detect';
+import { clampOption } from '../utils/batch';
+import { enforceClientRateLimit } from '../utils/rateLimit';
+import { getProbePaths, parseProbeDomain, probeAuthPaths, PROBE_LIMITS, resolveProbePath } from '../utils/probe';
+
+// Handle preflight requests
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreflight();
+}
+
+// Checks a list of well-known auth paths on a domain and returns one row per path
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const target = parseProbeDomain(body.domain);
+    if ('error' in target) {
+      return createCorsResponse({ error: target.error, code: 'INVALID_URL' }, 400);
+    }
+
+    if (body.paths !== undefined && (!Array.isArray(body.paths) || body.paths.some((path: unknown) => typeof path !== 'string'))) {
+      return createCorsResponse({ error: 'paths must be an array of strings', code: 'INVALID_REQUEST' }, 400);
+    }
+
+    const offOrigin = body.paths?.find((path: string) => !resolveProbePath(path, target.origin));
+    if (offOrigin !== undefined) {
+      return createCorsResponse({ error: `Path "${offOrigin}" does not stay on ${target.origin.origin}`, code: 'INVALID_REQUEST' }, 400);
+    }
+
+    const options = readDetectOptions(body);
+
+    const paths: string[] = body.paths?.length ? body.paths : getProbePaths();
+    const maxRequests = clampOption(body.maxRequests, PROBE_LIMITS.defaultMaxRequests, 1, PROBE_LIMITS.maxRequests);
+
+    // Every path that may be fetched counts against the client's limit
+    const rateLimited = await enforceClientRateLimit(request, Math.min(paths.length, maxRequests));
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    const report = await probeAuthPaths(target.origin, paths, maxRequests, options);
+
+    return createCorsResponse(report);
+
+  } catch (error) {
+    console.error('Error probing auth paths:', error);
+
+    return createCorsResponse(
+      { error: 'An unexpected error occurred', code: 'INTERNAL_ERROR' },
+      500
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest } from 'next/server';
+import { createCorsResponse, handleCorsPreflight } from '../utils/cors';
+import { decodeUpload, SCAN_LIMITS, scanDocuments } from '../utils/scan';
+import { enforceClientRateLimit } from '../utils/rateLimit';
+import { readBodyLimited } from '../utils/responseBody';
+
+// Handle preflight requests
+export async function OPTIONS(request: NextRequest) {
+  return handleCorsPreflight();
+}
+
+// Runs detection on pages we already have instead of fetching them. Accepts
+// multipart uploads (`files`: HTML or HAR files, `html`: a pasted snippet) or
+// JSON `{ html, name? }`.
+export async function POST(request: NextRequest) {
+  try {
+    // Scanning fetches nothing, so a scan counts as one request
+    const rateLimited = await enforceClientRateLimit(request);
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    const uploads: Array<{ name: string; text: string; kind?: 'snippet' }> = [];
+    const contentType = request.headers.get('content-type') || '';
+
+    // Checked before parsing, and again while reading, so an oversized upload
+    // is never read into memory past the limit
+    const declaredLength = Number(request.headers.get('content-length'));
+    const received = declaredLength > SCAN_LIMITS.maxBytes ? null : await readBodyLimited(request, SCAN_LIMITS.maxBytes);
+    if (!received || received.truncated) {
+      return createCorsResponse({ error: `Uploads are limited to ${SCAN_LIMITS.maxBytes} bytes`, code: 'TOO_LARGE' }, 413);
+    }
+
+    if (contentType.includes('multipart/form-data')) {
+      let form: FormData;
+      try {
+        form = await new Response(new Uint8Array(received.bytes), { headers: { 'Content-Type': contentType } }).formData();
+      } catch {
+        return createCorsResponse({ error: 'Invalid multipart body', code: 'INVALID_REQUEST' }, 400);
+      }
+      for (const file of form.getAll('files')) {
+        if (typeof file !== 'string') {
+          uploads.push({ name: file.name, text: decodeUpload(file.name, new Uint8Array(await file.arrayBuffer()), file.type || null) });
+        }
+      }
+      const snippet = form.get('html');
+      if (typeof snippet === 'string' && snippet.trim()) {
+        uploads.push({ name: 'Pasted HTML', text: snippet, kind: 'snippet' });
+      }
+    } else {
+      let body: any;
+      try {
+        body = JSON.parse(new TextDecoder('utf-8').decode(received.bytes));
+      } catch {
+        return createCorsResponse({ error: 'Invalid JSON body', code: 'INVALID_REQUEST' }, 400);
+      }
+      if (typeof body?.html === 'string' && body.html.trim()) {
+        uploads.push({ name: typeof body.name === 'string' ? body.name : 'Pasted HTML', text: body.html, kind: 'snippet' });
+      }
+    }
+
+    if (uploads.length === 0) {
+      return createCorsResponse({ error: 'Send HTML or HAR files as `files`, or HTML as `html`', code: 'INVALID_REQUEST' }, 400);
+    }
+
+    const totalBytes = uploads.reduce((total, upload) => total + Buffer.byteLength(upload.text), 0);
+    if (totalBytes > SCAN_LIMITS.maxBytes) {
+      return createCorsResponse({ error: `Uploads are limited to ${SCAN_LIMITS.maxBytes} bytes`, code: 'TOO_LARGE' }, 413);
+    }
+
+    return createCorsResponse(scanDocuments(uploads));
+
+  } catch (error) {
+    console.error('Error scanning uploads:', error);
+
+    return createCorsResponse(
+      { error: 'An unexpected error occurred', code: 'INTERNAL_ERROR' },
+      500
+    );
+  }
+}
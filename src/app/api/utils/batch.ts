@@ -0,0 +1,89 @@
+// Concurrency-limited scheduler for batch jobs, polite to each target host
+
+export interface BatchOptions {
+  concurrency: number; // Maximum number of tasks running at once
+  hostDelayMs: number; // Minimum gap between two requests to the same host
+  isCancelled?: () => boolean; // Stop picking up new tasks once this returns true
+}
+
+export const BATCH_LIMITS = {
+  maxUrls: 500,
+  defaultConcurrency: 4,
+  maxConcurrency: 10,
+  defaultHostDelayMs: 1000,
+  maxHostDelayMs: 30000,
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Helper function to clamp a user-supplied number into a range
+export function clampOption(value: unknown, fallback: number, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return fallback;
+  }
+  return Math.min(max, Math.max(min, Math.floor(value)));
+}
+
+// Runs `task` for every item with at most `concurrency` in flight, one request
+// at a time per host and at least `hostDelayMs` between requests to a host.
+// `onResult` is called as soon as each item finishes. A task that throws is
+// reported through `toErrorResult` so the rest of the batch keeps running.
+export async function runPoliteBatch<T, R>(
+  items: T[],
+  getHost: (item: T) => string,
+  task: (item: T) => Promise<R>,
+  toErrorResult: (item: T, error: unknown) => R,
+  onResult: (item: T, result: R) => void,
+  options: BatchOptions
+): Promise<void> {
+  const pending = [...items];
+  const hosts = new Map<string, { busy: boolean; nextStart: number }>();
+
+  // Pick the next item whose host is idle and past its politeness delay
+  const nextReadyItem = async (): Promise<T | null> => {
+    while (pending.length > 0 && !options.isCancelled?.()) {
+      const now = Date.now();
+      let earliestStart = Infinity;
+
+      const index = pending.findIndex(item => {
+        const state = hosts.get(getHost(item));
+        if (!state) {
+          return true;
+        }
+        if (!state.busy) {
+          earliestStart = Math.min(earliestStart, state.nextStart);
+        }
+        return !state.busy && state.nextStart <= now;
+      });
+
+      if (index !== -1) {
+        const [item] = pending.splice(index, 1);
+        hosts.set(getHost(item), { busy: true, nextStart: Infinity });
+        return item;
+      }
+
+      // Every remaining host is busy or cooling down
+      await sleep(Math.max(10, Math.min(earliestStart - now, 250)));
+    }
+    return null;
+  };
+
+  const worker = async () => {
+    let item = await nextReadyItem();
+    while (item !== null) {
+      let result: R;
+      try {
+        result = await task(item);
+      } catch (error) {
+        console.error('Error running batch task:', error);
+        result = toErrorResult(item, error);
+      }
+      hosts.set(getHost(item), { busy: false, nextStart: Date.now() + options.hostDelayMs });
+      onResult(item, result);
+      item = await nextReadyItem();
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(options.concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+}
@@ -0,0 +1,126 @@
+import { BotChallenge, BotChallengeType } from '../../utils/apiErrors';
+
+// Recognizes bot walls, WAF blocks and captcha interstitials, so they are
+// reported as such instead of as a page without a login form.
+//
+// A rule matches when the status is one of `statuses` (any status if omitted)
+// and at least one of its header or body patterns matches. Rules are checked in
+// order, so vendor-specific ones come before the generic fallbacks.
+//
+// A successful response that carries a password field is the page itself, not
+// a wall in front of it, even if it mentions captchas or unsupported browsers.
+
+interface ChallengeRule {
+  vendor: string | null; // null for generic pages that do not name their vendor
+  type: BotChallengeType;
+  statuses?: number[];
+  headers?: Array<{ name: string; pattern: RegExp }>;
+  body?: RegExp[];
+}
+
+const CHALLENGE_RULES: ChallengeRule[] = [
+  {
+    vendor: 'Cloudflare',
+    type: 'js-challenge',
+    headers: [{ name: 'cf-mitigated', pattern: /challenge/i }],
+  },
+  {
+    vendor: 'Cloudflare',
+    type: 'js-challenge',
+    statuses: [403, 429, 503],
+    body: [/<title>Just a moment\.\.\.<\/title>/i, /window\._cf_chl_opt/, /\/cdn-cgi\/challenge-platform\//],
+  },
+  {
+    vendor: 'Cloudflare',
+    type: 'block',
+    statuses: [403],
+    body: [/Attention Required! \| Cloudflare/i, /cf-error-details/],
+  },
+  {
+    vendor: 'Akamai',
+    type: 'block',
+    statuses: [403],
+    headers: [{ name: 'server', pattern: /AkamaiGHost/i }],
+    body: [/errors\.edgesuite\.net/i],
+  },
+  {
+    vendor: 'PerimeterX',
+    type: 'captcha',
+    statuses: [403],
+    body: [/id="px-captcha"/i, /captcha\.px-cdn\.net/i, /_pxCaptcha/],
+  },
+  {
+    vendor: 'DataDome',
+    type: 'captcha',
+    statuses: [403],
+    headers: [{ name: 'x-datadome', pattern: /./ }],
+    body: [/captcha-delivery\.com/i],
+  },
+  {
+    vendor: 'Imperva',
+    type: 'block',
+    body: [/Incapsula incident ID/i, /_Incapsula_Resource\?SWUDNSAI/],
+  },
+  {
+    vendor: 'AWS WAF',
+    type: 'js-challenge',
+    headers: [{ name: 'x-amzn-waf-action', pattern: /captcha|challenge/i }],
+    body: [/window\.gokuProps/],
+  },
+  {
+    vendor: 'Sucuri',
+    type: 'block',
+    headers: [{ name: 'x-sucuri-block', pattern: /./ }],
+    body: [/Sucuri WebSite Firewall - Access Denied/i],
+  },
+  {
+    vendor: 'Kasada',
+    type: 'js-challenge',
+    statuses: [429],
+    headers: [{ name: 'x-kpsdk-ct', pattern: /./ }],
+  },
+  {
+    vendor: null,
+    type: 'browser-check',
+    body: [/incompatible-browser/i, /browser not supported/i, /please use a modern browser/i],
+  },
+  {
+    vendor: null,
+    type: 'captcha',
+    body: [
+      /<title>[^<]*(captcha|are you a robot|human verification|security check)[^<]*<\/title>/i,
+      /unusual traffic from your (computer )?network/i,
+    ],
+  },
+  {
+    vendor: null,
+    type: 'block',
+    body: [/<title>\s*(Access Denied|Request (was )?Blocked|Request Rejected)\s*<\/title>/i],
+  },
+];
+
+const PASSWORD_INPUT = /<input\b[^>]*\btype\s*=\s*["']?password\b/i;
+
+export function classifyChallengePage(status: number, headers: Headers, body: string): BotChallenge | null {
+  if (status >= 200 && status < 300 && PASSWORD_INPUT.test(body)) {
+    return null;
+  }
+
+  for (const rule of CHALLENGE_RULES) {
+    if (rule.statuses && !rule.statuses.includes(status)) {
+      continue;
+    }
+
+    const header = rule.headers?.find(({ name, pattern }) => pattern.test(headers.get(name) || ''));
+    if (header) {
+      return { vendor: rule.vendor, type: rule.type, evidence: `${header.name}: ${headers.get(header.name)}` };
+    }
+
+    const bodyMatch = rule.body?.map(pattern => body.match(pattern)).find(Boolean);
+    if (bodyMatch) {
+      return { vendor: rule.vendor, type: rule.type, evidence: bodyMatch[0] };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,113 @@
+// Minimal cookie jar so a multi-step flow keeps its session across requests.
+// Follows the parts of RFC 6265 that matter for following a login flow:
+// Domain, Path, Max-Age / Expires and Secure.
+
+interface StoredCookie {
+  name: string;
+  value: string;
+  domain: string;
+  hostOnly: boolean; // No Domain attribute: only sent back to the exact host
+  path: string;
+  expiresAt: number | null;
+  secure: boolean;
+}
+
+// Helper function to compute the default cookie path: the URL's directory
+function getDefaultPath(url: URL): string {
+  const lastSlash = url.pathname.lastIndexOf('/');
+  return lastSlash > 0 ? url.pathname.slice(0, lastSlash) : '/';
+}
+
+function domainMatches(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  return requestPath === cookiePath
+    || (requestPath.startsWith(cookiePath) && (cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/'));
+}
+
+export class CookieJar {
+  private cookies: StoredCookie[] = [];
+
+  // Stores the cookies from a response's Set-Cookie headers
+  store(url: URL, setCookieHeaders: string[]) {
+    const host = url.hostname.toLowerCase();
+
+    for (const header of setCookieHeaders) {
+      const [pair, ...attributes] = header.split(';');
+      const separator = pair.indexOf('=');
+      if (separator <= 0) {
+        continue;
+      }
+
+      const cookie: StoredCookie = {
+        name: pair.slice(0, separator).trim(),
+        value: pair.slice(separator + 1).trim(),
+        domain: host,
+        hostOnly: true,
+        path: getDefaultPath(url),
+        expiresAt: null,
+        secure: false,
+      };
+      let maxAge: number | null = null;
+
+      for (const attribute of attributes) {
+        const [rawKey, ...rest] = attribute.split('=');
+        const key = rawKey.trim().toLowerCase();
+        const value = rest.join('=').trim();
+
+        if (key === 'domain' && value) {
+          cookie.domain = value.replace(/^\./, '').toLowerCase();
+          cookie.hostOnly = false;
+        } else if (key === 'path' && value.startsWith('/')) {
+          cookie.path = value;
+        } else if (key === 'max-age' && /^-?\d+$/.test(value)) {
+          maxAge = Number(value);
+        } else if (key === 'expires' && !Number.isNaN(Date.parse(value))) {
+          cookie.expiresAt = Date.parse(value);
+        } else if (key === 'secure') {
+          cookie.secure = true;
+        }
+      }
+
+      // Max-Age wins over Expires
+      if (maxAge !== null) {
+        cookie.expiresAt = Date.now() + maxAge * 1000;
+      }
+
+      // A site may only set cookies for its own domain or a parent of it
+      if (!domainMatches(host, cookie.domain)) {
+        continue;
+      }
+
+      this.cookies = this.cookies.filter(existing =>
+        !(existing.name === cookie.name && existing.domain === cookie.domain && existing.path === cookie.path)
+      );
+      if (cookie.expiresAt === null || cookie.expiresAt > Date.now()) {
+        this.cookies.push(cookie);
+      }
+    }
+  }
+
+  // Builds the Cookie header to send to a URL, or null when no cookie applies
+  getCookieHeader(url: URL): string | null {
+    const host = url.hostname.toLowerCase();
+    const now = Date.now();
+
+    const matching = this.cookies.filter(cookie =>
+      (cookie.hostOnly ? host === cookie.domain : domainMatches(host, cookie.domain))
+      && pathMatches(url.pathname, cookie.path)
+      && (!cookie.secure || url.protocol === 'https:')
+      && (cookie.expiresAt === null || cookie.expiresAt > now)
+    );
+
+    // Longer paths first, as browsers send them
+    matching.sort((a, b) => b.path.length - a.path.length);
+    return matching.length > 0 ? matching.map(cookie => `${cookie.name}=${cookie.value}`).join('; ') : null;
+  }
+
+  getCookieNames(): string[] {
+    return Array.from(new Set(this.cookies.map(cookie => cookie.name)));
+  }
+}
@@ -4,15 +4,16 @@ import { NextResponse } from 'next/server';
 export const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With, X-API-Key',
+  'Access-Control-Expose-Headers': 'Retry-After',
   'Access-Control-Max-Age': '86400', // 24 hours
 };
 
 // Helper function to create CORS-enabled responses
-export function createCorsResponse(data: any, status: number = 200) {
+export function createCorsResponse(data: any, status: number = 200, headers: Record<string, string> = {}) {
   return NextResponse.json(data, { 
     status, 
-    headers: corsHeaders 
+    headers: { ...corsHeaders, ...headers }
   });
 }
 
@@ -28,7 +29,8 @@ export function handleCorsPreflight() {
 export const productionCorsHeaders = {
   'Access-Control-Allow-Origin': process.env.ALLOWED_ORIGINS || 'http://localhost:3000',
   'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With, X-API-Key',
+  'Access-Control-Expose-Headers': 'Retry-After',
   'Access-Control-Max-Age': '86400',
   'Access-Control-Allow-Credentials': 'true',
 };
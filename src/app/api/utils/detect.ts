@@ -0,0 +1,129 @@
+import { findAuthForms, findFederatedLogins, findPasskeySupport, AuthForm, FederatedLogin, PasskeySupport } from '../../utils/htmlParser';
+import { AuthVendorMatch, fingerprintAuthVendor } from '../../utils/authVendors';
+import { auditAuthForms } from '../../utils/securityAudit';
+import { fetchHtml, FetchHtmlFailure, RedirectHop } from './fetchHtml';
+import { CacheStatus } from './responseCache';
+import { FetchAttempt } from '../../utils/apiErrors';
+import { discoverLoginPage, readDiscoveryLimits, DiscoveryLimits, DiscoveryReport } from './discovery';
+
+export interface DetectOptions {
+  includeHtml?: boolean; // Return the raw HTML alongside the detection result
+  discover?: DiscoveryLimits; // Follow "Sign in" links when the page has no auth form
+  forceRefresh?: boolean; // Bypass the page cache
+  profile?: string; // Fetch profile name, see fetchProfiles.ts
+  debug?: boolean; // Return the per-attempt fetch trace
+  respectRobots?: boolean; // Obey the site's robots.txt
+}
+
+export interface DetectSuccess {
+  ok: true;
+  url: string;
+  authForms: AuthForm[];
+  federatedLogins: FederatedLogin[]; // Social and SSO login options on the same page
+  passkeys: PasskeySupport;
+  authVendors: AuthVendorMatch[]; // Identity provider or auth framework behind the page, most likely first
+  fetch: {
+    status: number;
+    contentType: string;
+    contentLength: number;
+    charset: string;
+    truncated: boolean; // Forms past the size limit are missed
+    finalUrl: string; // Where the redirects ended
+    redirectChain: RedirectHop[];
+    cache: CacheStatus;
+    profile: string;
+    attempts?: FetchAttempt[]; // Only with `debug`
+  };
+  discovery?: DiscoveryReport;
+  html?: string;
+}
+
+export type DetectResult = DetectSuccess | FetchHtmlFailure;
+
+// Failure reported for a URL whose detection threw instead of returning a result
+export function internalErrorResult(): FetchHtmlFailure {
+  return { ok: false, error: 'An unexpected error occurred', status: 500, code: 'INTERNAL_ERROR' };
+}
+
+// Helper function to read detection options from a request body
+export function readDetectOptions(body: any): DetectOptions {
+  return {
+    includeHtml: body?.includeHtml === true,
+    discover: readDiscoveryLimits(body?.discover),
+    forceRefresh: body?.forceRefresh === true,
+    profile: typeof body?.profile === 'string' ? body.profile : undefined,
+    debug: body?.debug === true,
+    respectRobots: body?.respectRobots === true,
+  };
+}
+
+// Helper function to fetch one page and detect its forms
+async function detectPage(validUrl: URL, options: DetectOptions): Promise<DetectResult> {
+  const page = await fetchHtml(validUrl, {
+    forceRefresh: options.forceRefresh,
+    profile: options.profile,
+    respectRobots: options.respectRobots,
+  });
+
+  if (!page.ok) {
+    return page;
+  }
+
+  const html = page.html;
+
+  return {
+    ok: true,
+    url: page.url,
+    authForms: auditAuthForms(html, findAuthForms(html, page.finalUrl), {
+      url: page.finalUrl,
+      strictTransportSecurity: page.strictTransportSecurity,
+    }),
+    federatedLogins: findFederatedLogins(html, page.finalUrl),
+    passkeys: findPasskeySupport(html),
+    authVendors: fingerprintAuthVendor(html, page.finalUrl),
+    fetch: {
+      status: page.status,
+      contentType: page.contentType,
+      contentLength: page.contentLength,
+      charset: page.charset,
+      truncated: page.truncated,
+      finalUrl: page.finalUrl,
+      redirectChain: page.redirectChain,
+      cache: page.cache,
+      profile: page.profile,
+      attempts: options.debug ? page.attempts : undefined,
+    },
+    html,
+  };
+}
+
+// Fetches a page and runs the auth form parser on it, server-side.
+// With `discover`, the `url` and `fetch` fields describe the page the forms
+// were found on and `discovery` tells how it was reached.
+export async function detectAuthForms(validUrl: URL, options: DetectOptions = {}): Promise<DetectResult> {
+  let result = await detectPage(validUrl, options);
+
+  if (result.ok && result.authForms.length === 0 && options.discover) {
+    // Links are resolved against the page's final URL, after redirects
+    const { page, report } = await discoverLoginPage(
+      { ...result, url: result.fetch.finalUrl, html: result.html || '' },
+      options.discover,
+      async url => {
+        const next = await detectPage(url, options);
+        return next.ok ? { ...next, url: next.fetch.finalUrl, html: next.html || '' } : null;
+      }
+    );
+    result = { ...(page || result), discovery: report };
+  }
+
+  if (result.ok && !options.includeHtml) {
+    return { ...result, html: undefined };
+  }
+  return result;
+}
+
+// Helper function to turn a successful detection into the JSON body the routes return
+export function toDetectBody(result: DetectSuccess) {
+  const { ok, ...body } = result;
+  return body;
+}
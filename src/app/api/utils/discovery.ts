@@ -0,0 +1,107 @@
+import { findAuthLinks } from '../../utils/htmlParser';
+import { isSameSite } from '../../utils/urls';
+import { clampOption } from './batch';
+
+// Discovery mode: when a page has no auth form, follow its "Sign in" / "Account"
+// links on the same site until a page with an auth form is found.
+
+export interface DiscoveryLimits {
+  maxDepth: number; // How many links deep to follow from the start page
+  maxPages: number; // How many pages may be fetched besides the start page
+}
+
+export interface DiscoveryHop {
+  url: string;
+  linkText: string | null; // Text of the link that led here (null for the start page)
+}
+
+export interface DiscoveryReport {
+  startUrl: string;
+  loginUrl: string | null; // Page that contained the auth form, if any
+  path: DiscoveryHop[]; // Links followed from the start page to the login page
+  pagesFetched: number;
+  exhausted: boolean; // The page budget ran out before every candidate was tried
+}
+
+// The minimum a discovered page must provide
+export interface DiscoveredPage {
+  url: string;
+  html: string;
+  authForms: unknown[];
+}
+
+export const DISCOVERY_LIMITS = {
+  defaultMaxDepth: 2,
+  maxDepth: 4,
+  defaultMaxPages: 5,
+  maxPages: 20,
+};
+
+// Helper function to read `discover: true | { maxDepth, maxPages }` from a request body
+export function readDiscoveryLimits(value: unknown): DiscoveryLimits | undefined {
+  if (value !== true && (typeof value !== 'object' || value === null)) {
+    return undefined;
+  }
+  const options = value === true ? {} : value as Record<string, unknown>;
+  return {
+    maxDepth: clampOption(options.maxDepth, DISCOVERY_LIMITS.defaultMaxDepth, 1, DISCOVERY_LIMITS.maxDepth),
+    maxPages: clampOption(options.maxPages, DISCOVERY_LIMITS.defaultMaxPages, 1, DISCOVERY_LIMITS.maxPages),
+  };
+}
+
+// Breadth-first search from the start page, most promising links first
+export async function discoverLoginPage<T extends DiscoveredPage>(
+  start: T,
+  limits: DiscoveryLimits,
+  loadPage: (url: URL) => Promise<T | null>
+): Promise<{ page: T | null; report: DiscoveryReport }> {
+  const startUrl = new URL(start.url);
+  const visited = new Set<string>([startUrl.toString()]);
+  const queue: Array<{ page: T; depth: number; path: DiscoveryHop[] }> = [
+    { page: start, depth: 0, path: [{ url: start.url, linkText: null }] },
+  ];
+
+  const report: DiscoveryReport = {
+    startUrl: start.url,
+    loginUrl: null,
+    path: [],
+    pagesFetched: 0,
+    exhausted: false,
+  };
+
+  while (queue.length > 0) {
+    const { page, depth, path } = queue.shift()!;
+    if (depth >= limits.maxDepth) {
+      continue;
+    }
+
+    const links = findAuthLinks(page.html, page.url)
+      .filter(link => isSameSite(new URL(link.url).host, startUrl.host) && !visited.has(link.url));
+
+    for (const link of links) {
+      if (report.pagesFetched >= limits.maxPages) {
+        report.exhausted = true;
+        return { page: null, report };
+      }
+
+      visited.add(link.url);
+      report.pagesFetched++;
+
+      const next = await loadPage(new URL(link.url));
+      if (!next) {
+        continue;
+      }
+
+      const nextPath = [...path, { url: next.url, linkText: link.text || null }];
+      if (next.authForms.length > 0) {
+        report.loginUrl = next.url;
+        report.path = nextPath;
+        return { page: next, report };
+      }
+
+      queue.push({ page: next, depth: depth + 1, path: nextPath });
+    }
+  }
+
+  return { page: null, report };
+}
@@ -0,0 +1,12 @@
+// Helpers for reading configuration from environment variables
+
+// Reads a non-negative number, or returns `fallback` when the variable is unset or invalid
+export function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// Reads a comma-separated list, dropping empty entries
+export function readList(value: string | undefined): string[] {
+  return (value || '').split(',').map(entry => entry.trim()).filter(Boolean);
+}
@@ -0,0 +1,490 @@
+import { checkTarget, getGuardedDispatcher } from './targetGuard';
+import { CacheStatus, getCacheKey, getCacheMaxBytes, getCacheTtlMs, LruCache } from './responseCache';
+import { checkRateLimit } from './rateLimit';
+import { ApiErrorBody, ApiErrorCode, BotChallenge, describeBotChallenge, FetchAttempt, getHttpErrorCode } from '../../utils/apiErrors';
+import { classifyChallengePage } from './challengePages';
+import { getProfileHeaders, resolveFetchProfiles } from './fetchProfiles';
+import { DecodedBody, decodeBody, getBodyLimits, readBodyLimited } from './responseBody';
+import { checkRobots, shouldCheckRobots, waitForCrawlDelay } from './robots';
+import { CookieJar } from './cookieJar';
+
+// Server-side page fetching shared by the API routes
+
+// One request in a redirect chain; the last hop is the final response
+export interface RedirectHop {
+  url: string;
+  status: number;
+  location: string | null; // Absolute URL the hop redirected to
+  setCookieNames: string[]; // Names of the cookies the hop tried to set
+  durationMs: number;
+}
+
+export interface FetchHtmlSuccess {
+  ok: true;
+  html: string;
+  url: string;
+  finalUrl: string; // URL of the page after following redirects
+  redirectChain: RedirectHop[];
+  status: number;
+  contentType: string;
+  contentLength: number;
+  charset: string; // Encoding the page was decoded with
+  truncated: boolean; // The page was cut off at FETCH_MAX_BODY_BYTES
+  cache: CacheStatus;
+  profile: string; // Name of the fetch profile that got the page
+  strictTransportSecurity: string | null; // HSTS header of the final response
+  attempts: FetchAttempt[]; // Empty when served from the cache without revalidation
+}
+
+export interface FetchHtmlOptions {
+  forceRefresh?: boolean; // Skip the cache and fetch a fresh copy
+  profile?: string; // Fetch profile to use; by default each configured profile is tried in turn
+  respectRobots?: boolean; // Obey robots.txt (always on when ROBOTS_MODE=enforce)
+  cookieJar?: CookieJar; // Sends and collects cookies, for multi-step flows
+  postBody?: URLSearchParams; // Submits a form instead of loading the page
+}
+
+export interface FetchHtmlFailure {
+  ok: false;
+  error: string;
+  status: number; // HTTP status the API should answer with
+  upstreamStatus?: number; // Status returned by the target site, if any
+  contentType?: string;
+  code: ApiErrorCode;
+  retryAfterSeconds?: number;
+  challenge?: BotChallenge;
+  redirectChain?: RedirectHop[];
+  attempts?: FetchAttempt[];
+}
+
+export type FetchHtmlResult = FetchHtmlSuccess | FetchHtmlFailure;
+
+// Helper function to validate the `url` field of a request body
+export function parseTargetUrl(url: unknown): { url: URL } | { error: string } {
+  if (!url || typeof url !== 'string') {
+    return { error: 'URL is required' };
+  }
+
+  try {
+    return { url: new URL(url) };
+  } catch {
+    return { error: 'Invalid URL format' };
+  }
+}
+
+// Helper function to turn a failure into the JSON body the routes return;
+// the attempt trace is only included when the caller asked for it
+export function toErrorBody(failure: FetchHtmlFailure, includeAttempts: boolean = false): ApiErrorBody {
+  return {
+    error: failure.error,
+    status: failure.upstreamStatus,
+    contentType: failure.contentType,
+    code: failure.code,
+    retryAfterSeconds: failure.retryAfterSeconds,
+    challenge: failure.challenge,
+    redirectChain: failure.redirectChain,
+    attempts: includeAttempts ? failure.attempts : undefined,
+  };
+}
+
+// Helper function to build the extra response headers for a failure
+export function toErrorHeaders(failure: FetchHtmlFailure): Record<string, string> {
+  return failure.retryAfterSeconds ? { 'Retry-After': String(failure.retryAfterSeconds) } : {};
+}
+
+// Pages fetched by this server process, shared by every route
+const pageCache = new LruCache<FetchHtmlSuccess>(getCacheMaxBytes());
+
+const MAX_REDIRECTS = 10;
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Error codes Node uses for certificate and handshake failures
+const TLS_ERROR_PATTERN = /^(ERR_TLS_|ERR_SSL_|CERT_|UNABLE_TO_|DEPTH_ZERO_SELF_SIGNED_CERT|SELF_SIGNED_CERT_IN_CHAIN|HOSTNAME_MISMATCH)/;
+
+// Headers whose values are credentials, in requests and responses
+const SENSITIVE_HEADERS = ['cookie', 'set-cookie', 'authorization', 'proxy-authorization'];
+
+// Helper function to copy headers into a trace without leaking credentials:
+// cookies, authorization and any header a configured profile adds
+function redactHeaders(headers: Record<string, string>, extraSensitive: string[] = []): Record<string, string> {
+  const sensitive = [...SENSITIVE_HEADERS, ...extraSensitive.map(name => name.toLowerCase())];
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name, sensitive.includes(name.toLowerCase()) ? '[redacted]' : value])
+  );
+}
+
+// Helper function to map an exception thrown by fetch() to a coded failure;
+// undici hides the interesting part (e.g. ENOTFOUND) in `cause`
+function classifyFetchError(error: unknown): FetchHtmlFailure {
+  const err = error as (Error & { cause?: { code?: string; message?: string } }) | undefined;
+  const causeCode = err?.cause?.code || '';
+  const detail = err?.cause?.message || err?.message || 'Unknown error';
+
+  if (err?.name === 'TimeoutError' || err?.name === 'AbortError' || (causeCode.startsWith('UND_ERR_') && causeCode.includes('TIMEOUT'))) {
+    return { ok: false, error: 'Request timeout - URL took too long to respond', status: 408, code: 'TIMEOUT' };
+  }
+  if (causeCode === 'ETARGETBLOCKED') {
+    return { ok: false, error: `Target blocked: ${detail}`, status: 403, code: 'TARGET_BLOCKED' };
+  }
+  if (causeCode === 'ENOTFOUND' || causeCode === 'EAI_AGAIN') {
+    return { ok: false, error: `Could not resolve host: ${detail}`, status: 502, code: 'DNS_FAILURE' };
+  }
+  if (TLS_ERROR_PATTERN.test(causeCode)) {
+    return { ok: false, error: `TLS connection failed: ${detail}`, status: 502, code: 'TLS_ERROR' };
+  }
+  return { ok: false, error: `Failed to fetch URL: ${detail}`, status: 502, code: 'NETWORK_ERROR' };
+}
+
+// Helper function to describe a URL that robots.txt disallows
+function robotsFailure(url: URL, reason: string, chain?: RedirectHop[]): FetchHtmlFailure {
+  return {
+    ok: false,
+    error: `Disallowed by robots.txt (${reason})${chain?.length ? `: redirect to ${url}` : ''}`,
+    status: 403,
+    code: 'ROBOTS_DISALLOWED',
+    redirectChain: chain
+  };
+}
+
+// Helper function to follow redirects by hand so every hop goes through the SSRF
+// guard (and robots.txt, when it applies) and gets recorded in the chain (and
+// the cookie jar, if any)
+async function fetchFollowingRedirects(
+  url: URL,
+  init: RequestInit & { headers: Record<string, string> },
+  cookieJar?: CookieJar,
+  respectRobots = false
+): Promise<{ response: Response; finalUrl: URL; chain: RedirectHop[] } | { failure: FetchHtmlFailure }> {
+  let currentUrl = url;
+  let currentInit = init;
+  const chain: RedirectHop[] = [];
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const check = await checkTarget(currentUrl);
+    if (!check.allowed) {
+      return {
+        failure: {
+          ok: false,
+          error: `Target blocked: ${hop === 0 ? check.reason : `Redirect to ${currentUrl} refused: ${check.reason}`}`,
+          status: 403,
+          code: 'TARGET_BLOCKED',
+          redirectChain: chain
+        }
+      };
+    }
+
+    if (respectRobots) {
+      const robots = await checkRobots(currentUrl);
+      if (!robots.allowed) {
+        return { failure: robotsFailure(currentUrl, robots.reason, chain) };
+      }
+      await waitForCrawlDelay(currentUrl.host, robots.crawlDelayMs);
+    }
+
+    const headers = { ...currentInit.headers };
+    const jarCookies = cookieJar?.getCookieHeader(currentUrl);
+    if (jarCookies) {
+      headers['Cookie'] = headers['Cookie'] ? `${headers['Cookie']}; ${jarCookies}` : jarCookies;
+    }
+
+    const startedAt = Date.now();
+    const response = await fetch(currentUrl.toString(), {
+      ...currentInit,
+      headers,
+      redirect: 'manual',
+      dispatcher: getGuardedDispatcher(), // Node-only option, missing from the DOM RequestInit type
+    } as RequestInit);
+    cookieJar?.store(currentUrl, response.headers.getSetCookie());
+    const location = response.headers.get('location');
+    const isRedirect = REDIRECT_STATUSES.includes(response.status) && !!location;
+    const nextUrl = isRedirect ? new URL(location!, currentUrl) : null;
+
+    chain.push({
+      url: currentUrl.toString(),
+      status: response.status,
+      location: nextUrl ? nextUrl.toString() : null,
+      setCookieNames: response.headers.getSetCookie().map(cookie => cookie.split('=')[0].trim()),
+      durationMs: Date.now() - startedAt,
+    });
+
+    if (!nextUrl) {
+      return { response, finalUrl: currentUrl, chain };
+    }
+
+    await response.body?.cancel();
+    currentUrl = nextUrl;
+
+    // Like browsers, a redirected form POST becomes a GET unless the status is 307/308
+    if (currentInit.method === 'POST' && response.status !== 307 && response.status !== 308) {
+      currentInit = { ...currentInit, method: 'GET', body: undefined };
+    }
+  }
+
+  return {
+    failure: {
+      ok: false,
+      error: `Too many redirects (more than ${MAX_REDIRECTS})`,
+      status: 502,
+      code: 'TOO_MANY_REDIRECTS',
+      redirectChain: chain
+    }
+  };
+}
+
+export async function fetchHtml(validUrl: URL, options: FetchHtmlOptions = {}): Promise<FetchHtmlResult> {
+  const resolvedProfiles = resolveFetchProfiles(options.profile);
+  if ('error' in resolvedProfiles) {
+    return { ok: false, error: resolvedProfiles.error, status: 400, code: 'INVALID_REQUEST' };
+  }
+  // A form is submitted once, never replayed with other profiles
+  const profiles = options.postBody ? resolvedProfiles.slice(0, 1) : resolvedProfiles;
+
+  // Session requests depend on cookies, so they neither use nor fill the cache
+  const isSession = !!options.cookieJar || !!options.postBody;
+
+  // robots.txt is checked before the cache, so a disallowed page is never served
+  // from a copy fetched without it. Redirect hops are checked as they are followed.
+  const respectRobots = shouldCheckRobots(options.respectRobots);
+  if (respectRobots) {
+    const robots = await checkRobots(validUrl);
+    if (!robots.allowed) {
+      return robotsFailure(validUrl, robots.reason);
+    }
+  }
+
+  // Fresh cache entries are served as-is; stale ones are revalidated with the
+  // validators the site gave us
+  const ttlMs = getCacheTtlMs();
+  const cacheKey = getCacheKey(validUrl, options.profile || 'auto');
+  const cached = ttlMs > 0 && !options.forceRefresh && !isSession ? pageCache.get(cacheKey) : undefined;
+
+  if (cached && Date.now() - cached.storedAt < ttlMs) {
+    // The cached copy may have been reached through redirects
+    for (const hop of respectRobots ? cached.value.redirectChain.slice(1) : []) {
+      const hopUrl = new URL(hop.url);
+      const robots = await checkRobots(hopUrl);
+      if (!robots.allowed) {
+        return robotsFailure(hopUrl, robots.reason, cached.value.redirectChain);
+      }
+    }
+    return { ...cached.value, cache: { hit: true, ageMs: Date.now() - cached.storedAt, revalidated: false }, attempts: [] };
+  }
+
+  // Cache hits never reach the site, so only real fetches count against its limit
+  const hostLimit = await checkRateLimit('host', validUrl.host);
+  if (!hostLimit.allowed) {
+    return {
+      ok: false,
+      error: `Too many requests to ${validUrl.host}: try again in ${hostLimit.retryAfterSeconds}s`,
+      status: 429,
+      code: 'RATE_LIMITED',
+      retryAfterSeconds: hostLimit.retryAfterSeconds
+    };
+  }
+
+  const conditionalHeaders: Record<string, string> = {};
+  if (cached?.etag) {
+    conditionalHeaders['If-None-Match'] = cached.etag;
+  }
+  if (cached?.lastModified) {
+    conditionalHeaders['If-Modified-Since'] = cached.lastModified;
+  }
+
+  try {
+    let response: Response | null = null;
+    let finalUrl = validUrl;
+    let redirectChain: RedirectHop[] = [];
+    let body = '';
+    let decoded: DecodedBody | null = null;
+    let truncated = false;
+    const bodyLimits = getBodyLimits();
+    let lastFailure: FetchHtmlFailure | null = null;
+    let challenge: { page: BotChallenge; status: number } | null = null;
+    const attempts: FetchAttempt[] = [];
+
+    let profileName = profiles[0].name;
+
+    // Try each profile until one succeeds
+    for (const profile of profiles) {
+      profileName = profile.name;
+      const requestHeaders = { ...getProfileHeaders(profile), ...conditionalHeaders };
+      const attempt: FetchAttempt = {
+        profile: profile.name,
+        requestHeaders: redactHeaders(requestHeaders, profile.configuredHeaders),
+        status: null,
+        responseHeaders: {},
+        durationMs: 0,
+        bytes: 0,
+      };
+      attempts.push(attempt);
+      const startedAt = Date.now();
+
+      try {
+        const result = await fetchFollowingRedirects(validUrl, {
+          method: options.postBody ? 'POST' : 'GET',
+          headers: requestHeaders,
+          body: options.postBody,
+          signal: AbortSignal.timeout(profile.timeoutMs),
+        }, options.cookieJar, respectRobots);
+
+        // Blocked targets and redirect loops are final: trying other headers would not change the answer
+        if ('failure' in result) {
+          attempt.failureReason = result.failure.error;
+          return { ...result.failure, attempts };
+        }
+        response = result.response;
+        finalUrl = result.finalUrl;
+        redirectChain = result.chain;
+        attempt.status = response.status;
+        attempt.responseHeaders = redactHeaders(Object.fromEntries(response.headers));
+
+        // The cached copy is still current
+        if (response.status === 304 && cached) {
+          break;
+        }
+
+        // Bot walls come with any status, 200 included, so every page is checked;
+        // if we got one, try the next profile
+        const received = await readBodyLimited(response, bodyLimits.maxBytes);
+        attempt.bytes = received.bytes.byteLength;
+        truncated = received.truncated;
+        decoded = decodeBody(received.bytes, response.headers.get('content-type'));
+        body = decoded.text;
+        const detected = classifyChallengePage(response.status, response.headers, body);
+        if (detected) {
+          attempt.failureReason = `Blocked by ${describeBotChallenge(detected)}: ${detected.evidence}`;
+          challenge = { page: detected, status: response.status };
+          response = null;
+          continue;
+        }
+
+        // Anything else is the site's real answer, success or error
+        if (!response.ok) {
+          attempt.failureReason = `${response.status} ${response.statusText}`;
+        }
+        break;
+      } catch (error) {
+        lastFailure = classifyFetchError(error);
+        attempt.failureReason = lastFailure.error;
+        response = null;
+        continue;
+      } finally {
+        attempt.durationMs = Date.now() - startedAt;
+      }
+    }
+
+    if (!response && challenge) {
+      return {
+        ok: false,
+        error: `Blocked by ${describeBotChallenge(challenge.page)}`,
+        status: 403,
+        upstreamStatus: challenge.status,
+        code: 'BOT_PROTECTION',
+        challenge: challenge.page,
+        redirectChain,
+        attempts
+      };
+    }
+
+    if (!response) {
+      return {
+        ...(lastFailure || {
+          ok: false,
+          error: 'Failed to fetch URL: All fetch attempts failed',
+          status: 502,
+          code: 'NETWORK_ERROR'
+        }),
+        attempts
+      };
+    }
+
+    if (response.status === 304 && cached) {
+      cached.storedAt = Date.now();
+      pageCache.set(cacheKey, cached);
+      return { ...cached.value, cache: { hit: true, ageMs: 0, revalidated: true }, attempts };
+    }
+
+    if (!response.ok) {
+      return {
+        ok: false,
+        error: `Failed to fetch URL: ${response.status} ${response.statusText}`,
+        status: response.status,
+        upstreamStatus: response.status,
+        code: getHttpErrorCode(response.status),
+        redirectChain,
+        attempts
+      };
+    }
+
+    const html = body;
+    const contentType = response.headers.get('content-type') || '';
+
+    // Check if the response is actually HTML
+    if (!contentType.includes('text/html')) {
+      return {
+        ok: false,
+        error: 'URL does not return HTML content',
+        status: 400,
+        code: 'NOT_HTML',
+        contentType,
+        redirectChain,
+        attempts
+      };
+    }
+
+    if (truncated && bodyLimits.rejectOversized) {
+      return {
+        ok: false,
+        error: `Page is larger than the ${bodyLimits.maxBytes} byte limit`,
+        status: 502,
+        code: 'TOO_LARGE',
+        contentType,
+        redirectChain,
+        attempts
+      };
+    }
+
+    const page: FetchHtmlSuccess = {
+      ok: true,
+      html,
+      url: validUrl.toString(),
+      finalUrl: finalUrl.toString(),
+      redirectChain,
+      status: response.status,
+      contentType,
+      contentLength: html.length,
+      charset: decoded?.charset || 'utf-8',
+      truncated,
+      cache: { hit: false, ageMs: 0, revalidated: false },
+      profile: profileName,
+      strictTransportSecurity: response.headers.get('strict-transport-security'),
+      attempts,
+    };
+
+    if (ttlMs > 0 && !isSession) {
+      pageCache.set(cacheKey, {
+        value: page,
+        storedAt: Date.now(),
+        etag: response.headers.get('etag'),
+        lastModified: response.headers.get('last-modified'),
+        size: Buffer.byteLength(html),
+      });
+    }
+
+    return page;
+
+  } catch (error) {
+    console.error('Error fetching HTML:', error);
+    
+    if (error instanceof Error) {
+      return classifyFetchError(error);
+    }
+
+    return {
+      ok: false,
+      error: 'An unexpected error occurred',
+      status: 500,
+      code: 'INTERNAL_ERROR'
+    };
+  }
+}
@@ -0,0 +1,134 @@
+// Named sets of request headers used to fetch pages.
+//
+// Configuration (environment variables):
+// - FETCH_PROFILES: JSON object of profiles to add or override, e.g.
+//   {"custom": {"headers": {"X-Test": "1"}, "cookies": {"consent": "yes"}, "acceptLanguage": "de-DE", "timeoutMs": 20000}}
+// - FETCH_PROFILE_ORDER: profiles tried in turn when a request does not name
+//   one (default "desktop-chrome,mobile-safari,plain")
+
+export interface FetchProfile {
+  name: string;
+  userAgent?: string;
+  headers: Record<string, string>; // Sent as-is, after the User-Agent
+  configuredHeaders: string[]; // Names of the headers set through FETCH_PROFILES, which may hold secrets
+  cookies: Record<string, string>;
+  acceptLanguage: string;
+  timeoutMs: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+const DEFAULT_FETCH_PROFILES: Record<string, Omit<FetchProfile, 'name' | 'configuredHeaders'>> = {
+  // Full browser headers
+  'desktop-chrome': {
+    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+    headers: {
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7',
+      'Accept-Encoding': 'gzip, deflate, br',
+      'DNT': '1',
+      'Connection': 'keep-alive',
+      'Upgrade-Insecure-Requests': '1',
+      'Sec-Fetch-Dest': 'document',
+      'Sec-Fetch-Mode': 'navigate',
+      'Sec-Fetch-Site': 'none',
+      'Sec-Fetch-User': '?1',
+      'Cache-Control': 'max-age=0',
+      'sec-ch-ua': '"Not_A Brand";v="8", "Chromium";v="120", "Google Chrome";v="120"',
+      'sec-ch-ua-mobile': '?0',
+      'sec-ch-ua-platform': '"Windows"'
+    },
+    cookies: {},
+    acceptLanguage: 'en-US,en;q=0.9',
+    timeoutMs: DEFAULT_TIMEOUT_MS,
+  },
+  // Some sites serve a simpler login page to phones
+  'mobile-safari': {
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Mobile/15E148 Safari/604.1',
+    headers: {
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+      'Accept-Encoding': 'gzip, deflate, br',
+    },
+    cookies: {},
+    acceptLanguage: 'en-US,en;q=0.9',
+    timeoutMs: DEFAULT_TIMEOUT_MS,
+  },
+  // Minimal headers (some sites prefer this)
+  plain: {
+    headers: {
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+    },
+    cookies: {},
+    acceptLanguage: 'en-US,en;q=0.9',
+    timeoutMs: DEFAULT_TIMEOUT_MS,
+  },
+};
+
+const DEFAULT_PROFILE_ORDER = ['desktop-chrome', 'mobile-safari', 'plain'];
+
+// Helper function to read a configured profile, falling back to defaults field by field
+function toProfile(name: string, value: any): FetchProfile {
+  const base = Object.hasOwn(DEFAULT_FETCH_PROFILES, name) ? DEFAULT_FETCH_PROFILES[name] : DEFAULT_FETCH_PROFILES.plain;
+  return {
+    name,
+    userAgent: typeof value?.userAgent === 'string' ? value.userAgent : base.userAgent,
+    headers: { ...base.headers, ...(value?.headers || {}) },
+    configuredHeaders: Object.keys(value?.headers || {}),
+    cookies: { ...base.cookies, ...(value?.cookies || {}) },
+    acceptLanguage: typeof value?.acceptLanguage === 'string' ? value.acceptLanguage : base.acceptLanguage,
+    timeoutMs: Number.isFinite(value?.timeoutMs) && value.timeoutMs > 0 ? value.timeoutMs : base.timeoutMs,
+  };
+}
+
+export function getFetchProfiles(): Record<string, FetchProfile> {
+  let configured: Record<string, unknown> = {};
+  if (process.env.FETCH_PROFILES) {
+    try {
+      const parsed = JSON.parse(process.env.FETCH_PROFILES);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        configured = parsed;
+      } else {
+        console.error('Ignoring FETCH_PROFILES: not a JSON object');
+      }
+    } catch {
+      console.error('Ignoring FETCH_PROFILES: not valid JSON');
+    }
+  }
+
+  // No prototype, so names like "constructor" or "__proto__" are plain keys
+  const profiles: Record<string, FetchProfile> = Object.create(null);
+  for (const name of new Set([...Object.keys(DEFAULT_FETCH_PROFILES), ...Object.keys(configured)])) {
+    profiles[name] = toProfile(name, Object.hasOwn(configured, name) ? configured[name] : undefined);
+  }
+  return profiles;
+}
+
+// Returns the profiles to try in order: only the named one when a request
+// picks a profile, else the configured fallback order
+export function resolveFetchProfiles(name?: string): FetchProfile[] | { error: string } {
+  const profiles = getFetchProfiles();
+
+  if (name) {
+    return Object.hasOwn(profiles, name)
+      ? [profiles[name]]
+      : { error: `Unknown fetch profile "${name}". Available: ${Object.keys(profiles).join(', ')}` };
+  }
+
+  const order = (process.env.FETCH_PROFILE_ORDER || '').split(',').map(entry => entry.trim()).filter(entry => Object.hasOwn(profiles, entry));
+  return (order.length > 0 ? order : DEFAULT_PROFILE_ORDER).map(entry => profiles[entry]);
+}
+
+// Helper function to build the request headers for a profile
+export function getProfileHeaders(profile: FetchProfile): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (profile.userAgent) {
+    headers['User-Agent'] = profile.userAgent;
+  }
+  headers['Accept-Language'] = profile.acceptLanguage;
+  Object.assign(headers, profile.headers);
+
+  const cookies = Object.entries(profile.cookies);
+  if (cookies.length > 0) {
+    headers['Cookie'] = cookies.map(([name, value]) => `${name}=${value}`).join('; ');
+  }
+  return headers;
+}
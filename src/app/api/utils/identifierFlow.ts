@@ -0,0 +1,202 @@
+import * as cheerio from 'cheerio';
+import { AuthForm, findAuthForms } from '../../utils/htmlParser';
+import { fetchHtml, FetchHtmlFailure } from './fetchHtml';
+import { CookieJar } from './cookieJar';
+
+// Multi-step mode for identifier-first logins (email first, password on the
+// next page): submits the identifier form with a configured dummy value,
+// keeping the session cookies, and runs detection on each step.
+//
+// Only the dummy identifier is ever filled in. Forms with a password field are
+// never submitted; reaching one ends the flow.
+//
+// Configuration (environment variables):
+// - FLOW_DUMMY_IDENTIFIER: value typed into the identifier field (default "detector-probe@example.com")
+
+export const FLOW_LIMITS = {
+  defaultMaxSteps: 3,
+  maxSteps: 5,
+};
+
+export interface FlowSubmission {
+  action: string;
+  method: 'GET' | 'POST';
+  fieldNames: string[]; // Every field sent, the dummy identifier included
+  identifierField: string;
+}
+
+export interface FlowStep {
+  url: string;
+  finalUrl: string;
+  status: number;
+  authForms: AuthForm[];
+  submitted?: FlowSubmission; // How this step's identifier form was submitted to reach the next one
+}
+
+export interface FlowReport {
+  startUrl: string;
+  steps: FlowStep[];
+  stopReason: string;
+  cookieNames: string[]; // Cookies the site set during the flow
+}
+
+export type FlowResult = ({ ok: true } & FlowReport) | FetchHtmlFailure;
+
+export interface FlowOptions {
+  maxSteps: number;
+  profile?: string;
+  respectRobots?: boolean;
+}
+
+export function getDummyIdentifier(): string {
+  return process.env.FLOW_DUMMY_IDENTIFIER || 'detector-probe@example.com';
+}
+
+const SKIPPED_INPUT_TYPES = ['submit', 'button', 'reset', 'image', 'file', 'password'];
+
+// Helper function to tell which field takes the identifier
+function isIdentifierField($field: any, type: string): boolean {
+  const autocomplete = ($field.attr('autocomplete') || '').toLowerCase();
+  const hints = `${$field.attr('name') || ''} ${$field.attr('id') || ''}`.toLowerCase();
+
+  return type === 'email'
+    || /\b(username|email)\b/.test(autocomplete)
+    || (['text', 'tel'].includes(type) && /email|user|login|identifier|account/.test(hints));
+}
+
+// Helper function to build the request the browser would send for the
+// identifier form, with the dummy identifier and the form's own hidden fields.
+// The action and method come from the form's submission metadata (resolved
+// against the page URL by the parser)
+function buildSubmission(
+  form: AuthForm,
+  identifier: string
+): (FlowSubmission & { url: URL; body?: URLSearchParams }) | { error: string } {
+  const metadata = form.submission;
+  if (!form.formElement || !metadata?.method) {
+    return { error: 'the identifier field is not inside a <form>, so it is likely submitted by JavaScript' };
+  }
+  if (!metadata.action) {
+    return { error: 'the form action is not a valid URL' };
+  }
+
+  const $ = cheerio.load(form.formElement) as cheerio.CheerioAPI;
+  const $form = $('form').first();
+
+  if ($form.find('input[type="password"]').length > 0) {
+    return { error: 'the form has a password field' };
+  }
+
+  // Without a known page URL, or with a broken action attribute, the action may not parse
+  let action: URL;
+  try {
+    action = new URL(metadata.action);
+  } catch {
+    return { error: `the form action is not a valid URL (${metadata.action})` };
+  }
+  if (action.protocol !== 'http:' && action.protocol !== 'https:') {
+    return { error: `the form action is not an http(s) URL (${action.protocol})` };
+  }
+  const method = metadata.method === 'POST' ? 'POST' : 'GET';
+
+  const fields = new URLSearchParams();
+  let identifierField: string | null = null;
+
+  $form.find('input, select, textarea').each((_, element) => {
+    const $field = $(element);
+    const name = $field.attr('name');
+    const type = ($field.attr('type') || 'text').toLowerCase();
+
+    if (!name || $field.is('[disabled]') || SKIPPED_INPUT_TYPES.includes(type)) {
+      return;
+    }
+    if ((type === 'checkbox' || type === 'radio') && !$field.is('[checked]')) {
+      return;
+    }
+
+    if (!identifierField && $field.is('input') && isIdentifierField($field, type)) {
+      identifierField = name;
+      fields.append(name, identifier);
+    } else if ($field.is('select')) {
+      const $option = $field.find('option[selected]').first().length ? $field.find('option[selected]').first() : $field.find('option').first();
+      fields.append(name, $option.attr('value') ?? $option.text());
+    } else if ($field.is('textarea')) {
+      fields.append(name, $field.text());
+    } else {
+      fields.append(name, $field.attr('value') || (type === 'checkbox' || type === 'radio' ? 'on' : ''));
+    }
+  });
+
+  if (!identifierField) {
+    return { error: 'no identifier field was found to fill in' };
+  }
+
+  const submission: FlowSubmission = {
+    action: action.toString(),
+    method,
+    fieldNames: Array.from(new Set(fields.keys())),
+    identifierField,
+  };
+  if (method === 'GET') {
+    action.search = fields.toString();
+    return { ...submission, url: action };
+  }
+  return { ...submission, url: action, body: fields };
+}
+
+export async function runIdentifierFlow(startUrl: URL, options: FlowOptions): Promise<FlowResult> {
+  const cookieJar = new CookieJar();
+  const fetchOptions = { profile: options.profile, respectRobots: options.respectRobots, cookieJar };
+
+  let page = await fetchHtml(startUrl, fetchOptions);
+  if (!page.ok) {
+    return page;
+  }
+
+  const steps: FlowStep[] = [];
+  let stopReason = '';
+
+  while (true) {
+    const authForms = findAuthForms(page.html, page.finalUrl);
+    const step: FlowStep = { url: page.url, finalUrl: page.finalUrl, status: page.status, authForms };
+    steps.push(step);
+
+    const identifierForm = authForms.find(form => form.purpose === 'identifier-first');
+    if (authForms.some(form => form.hasPasswordInput)) {
+      stopReason = 'Reached a step with a password field';
+      break;
+    }
+    if (!identifierForm) {
+      stopReason = 'No identifier-first form on this step';
+      break;
+    }
+    if (steps.length >= options.maxSteps) {
+      stopReason = `Stopped after ${options.maxSteps} steps`;
+      break;
+    }
+
+    const submission = buildSubmission(identifierForm, getDummyIdentifier());
+    if ('error' in submission) {
+      stopReason = `Cannot submit the identifier form: ${submission.error}`;
+      break;
+    }
+
+    const { url, body, ...submitted } = submission;
+    step.submitted = submitted;
+
+    const next = await fetchHtml(url, { ...fetchOptions, postBody: body });
+    if (!next.ok) {
+      stopReason = `Submitting the identifier form failed: ${next.error}`;
+      break;
+    }
+    page = next;
+  }
+
+  return {
+    ok: true,
+    startUrl: startUrl.toString(),
+    steps,
+    stopReason,
+    cookieNames: cookieJar.getCookieNames(),
+  };
+}
@@ -0,0 +1,147 @@
+import { detectAuthForms, DetectOptions, internalErrorResult } from './detect';
+import { runPoliteBatch } from './batch';
+import { ApiErrorCode } from '../../utils/apiErrors';
+
+// Probe mode: run detection on a list of common auth paths for one domain to
+// map every auth surface a site exposes.
+
+// Override with PROBE_PATHS (comma-separated) or per request with `paths`
+export const DEFAULT_PROBE_PATHS = [
+  '/login',
+  '/signin',
+  '/sign-in',
+  '/log-in',
+  '/account/login',
+  '/accounts/login',
+  '/user/login',
+  '/users/sign_in',
+  '/auth/login',
+  '/session/new',
+  '/wp-login.php',
+  '/admin',
+  '/my-account',
+  '/signup',
+  '/register',
+  '/forgot-password',
+  '/password/reset',
+  '/.well-known/change-password',
+];
+
+export const PROBE_LIMITS = {
+  defaultMaxRequests: 20,
+  maxRequests: 50,
+  hostDelayMs: 500,
+};
+
+export interface ProbeResult {
+  path: string;
+  url: string;
+  finalUrl: string | null; // Where the path's redirects ended
+  status: number | null; // Status returned by the site, null if nothing came back
+  // blocked: a bot wall answered; disallowed: robots.txt forbids the path
+  outcome: 'auth-form' | 'no-form' | 'blocked' | 'disallowed' | 'error' | 'skipped';
+  authForms: Array<{ purpose: string; confidence: number }>;
+  error?: string;
+  code?: ApiErrorCode;
+}
+
+export interface ProbeReport {
+  origin: string;
+  probed: number;
+  budgetExhausted: boolean; // Some paths were skipped because of maxRequests
+  results: ProbeResult[];
+}
+
+export function getProbePaths(): string[] {
+  const configured = (process.env.PROBE_PATHS || '').split(',').map(path => path.trim()).filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_PROBE_PATHS;
+}
+
+// Helper function to turn "example.com" or "https://example.com/anything" into an origin
+export function parseProbeDomain(domain: unknown): { origin: URL } | { error: string } {
+  if (!domain || typeof domain !== 'string') {
+    return { error: 'domain is required' };
+  }
+
+  const withProtocol = /^https?:\/\//i.test(domain.trim()) ? domain.trim() : `https://${domain.trim()}`;
+  try {
+    return { origin: new URL(new URL(withProtocol).origin) };
+  } catch {
+    return { error: 'Invalid domain' };
+  }
+}
+
+// Helper function to resolve a probe path on the origin; null when the path
+// would leave it (e.g. "//evil.com/x" or "/\\evil.com") or is not a valid URL
+export function resolveProbePath(path: string, origin: URL): URL | null {
+  try {
+    const url = new URL(path.startsWith('/') ? path : `/${path}`, origin);
+    return url.origin === origin.origin ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+// Each path counts as one request against the budget (a path may still be
+// retried with the other header profiles, like any single fetch). Paths that
+// would leave the origin are dropped.
+export async function probeAuthPaths(
+  origin: URL,
+  paths: string[],
+  maxRequests: number,
+  options: DetectOptions = {}
+): Promise<ProbeReport> {
+  const uniquePaths = Array.from(new Set(
+    paths.filter(path => resolveProbePath(path, origin)).map(path => path.startsWith('/') ? path : `/${path}`)
+  ));
+  const toProbe = uniquePaths.slice(0, maxRequests);
+  const results = new Map<string, ProbeResult>();
+
+  await runPoliteBatch(
+    toProbe,
+    () => origin.host,
+    path => detectAuthForms(new URL(path, origin), { ...options, includeHtml: false, discover: undefined }),
+    internalErrorResult,
+    (path, result) => {
+      const url = new URL(path, origin).toString();
+
+      if (!result.ok) {
+        results.set(path, {
+          path,
+          url,
+          finalUrl: result.redirectChain?.[result.redirectChain.length - 1]?.url ?? null,
+          status: result.upstreamStatus ?? null,
+          outcome: result.code === 'BOT_PROTECTION' ? 'blocked' : result.code === 'ROBOTS_DISALLOWED' ? 'disallowed' : 'error',
+          authForms: [],
+          error: result.error,
+          code: result.code,
+        });
+        return;
+      }
+
+      results.set(path, {
+        path,
+        url: result.url,
+        finalUrl: result.fetch.finalUrl,
+        status: result.fetch.status,
+        outcome: result.authForms.length > 0 ? 'auth-form' : 'no-form',
+        authForms: result.authForms.map(form => ({ purpose: form.purpose, confidence: form.confidence })),
+      });
+    },
+    { concurrency: 1, hostDelayMs: PROBE_LIMITS.hostDelayMs }
+  );
+
+  return {
+    origin: origin.origin,
+    probed: toProbe.length,
+    budgetExhausted: uniquePaths.length > toProbe.length,
+    results: uniquePaths.map(path => results.get(path) || {
+      path,
+      url: new URL(path, origin).toString(),
+      finalUrl: null,
+      status: null,
+      outcome: 'skipped',
+      authForms: [],
+    }),
+  };
+}
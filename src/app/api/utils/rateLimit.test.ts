@@ -0,0 +1,115 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkRateLimit, enforceClientRateLimit, getClientKey, MemoryRateLimitStore, setRateLimitStore } from './rateLimit';
+
+const request = (headers: Record<string, string> = {}) => new NextRequest('http://localhost/api/detect', { method: 'POST', headers });
+
+beforeEach(() => {
+  setRateLimitStore(new MemoryRateLimitStore());
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+});
+
+describe('MemoryRateLimitStore', () => {
+  it('adds to the counter while it stays within the limit', async () => {
+    const store = new MemoryRateLimitStore();
+
+    expect(await store.increment('a', 1000, 2, 3)).toMatchObject({ allowed: true, count: 2 });
+    expect(await store.increment('a', 1000, 1, 3)).toMatchObject({ allowed: true, count: 3 });
+  });
+
+  it('does not count a refused request', async () => {
+    const store = new MemoryRateLimitStore();
+    await store.increment('a', 1000, 2, 3);
+
+    expect(await store.increment('a', 1000, 2, 3)).toMatchObject({ allowed: false, count: 2 });
+    expect(await store.increment('a', 1000, 1, 3)).toMatchObject({ allowed: true, count: 3 });
+  });
+
+  it('starts a new window once the old one has passed', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryRateLimitStore();
+    await store.increment('a', 1000, 3, 3);
+
+    vi.advanceTimersByTime(1000);
+    expect(await store.increment('a', 1000, 3, 3)).toMatchObject({ allowed: true, count: 3 });
+  });
+
+  it('keeps a counter per key', async () => {
+    const store = new MemoryRateLimitStore();
+    await store.increment('a', 1000, 3, 3);
+
+    expect((await store.increment('b', 1000, 3, 3)).allowed).toBe(true);
+  });
+});
+
+describe('checkRateLimit', () => {
+  it('refuses requests past the limit with the time left in the window', async () => {
+    vi.stubEnv('RATE_LIMIT_HOST_MAX', '2');
+    vi.stubEnv('RATE_LIMIT_HOST_WINDOW_MS', '30000');
+
+    expect(await checkRateLimit('host', 'example.com')).toEqual({ allowed: true });
+    expect(await checkRateLimit('host', 'example.com')).toEqual({ allowed: true });
+    expect(await checkRateLimit('host', 'example.com')).toEqual({ allowed: false, retryAfterSeconds: 30, limit: 2, windowMs: 30000 });
+  });
+
+  it('is disabled by a max of 0', async () => {
+    vi.stubEnv('RATE_LIMIT_HOST_MAX', '0');
+
+    expect(await checkRateLimit('host', 'example.com', 1000)).toEqual({ allowed: true });
+  });
+});
+
+describe('enforceClientRateLimit', () => {
+  beforeEach(() => {
+    vi.stubEnv('RATE_LIMIT_CLIENT_MAX', '5');
+    vi.stubEnv('RATE_LIMIT_CLIENT_WINDOW_MS', '60000');
+  });
+
+  it('lets requests through while the client is within its limit', async () => {
+    expect(await enforceClientRateLimit(request(), 5)).toBeNull();
+  });
+
+  it('answers 429 with Retry-After once the limit is used up', async () => {
+    await enforceClientRateLimit(request(), 4);
+    const response = await enforceClientRateLimit(request(), 2);
+
+    expect(response?.status).toBe(429);
+    expect(response?.headers.get('Retry-After')).toBe('60');
+    expect(await response?.json()).toMatchObject({ code: 'RATE_LIMITED', retryAfterSeconds: 60 });
+
+    // The refused request did not use up what was left
+    expect(await enforceClientRateLimit(request(), 1)).toBeNull();
+  });
+
+  it('answers 400 without charging a request larger than the limit itself', async () => {
+    const response = await enforceClientRateLimit(request(), 6);
+
+    expect(response?.status).toBe(400);
+    expect(await response?.json()).toMatchObject({ code: 'INVALID_REQUEST' });
+    expect(await enforceClientRateLimit(request(), 5)).toBeNull();
+  });
+});
+
+describe('getClientKey', () => {
+  it('uses a configured API key, and ignores unknown ones', () => {
+    vi.stubEnv('API_KEYS', 'key-1,key-2');
+
+    expect(getClientKey(request({ 'x-api-key': 'key-2' }))).toBe('key:key-2');
+    expect(getClientKey(request({ 'x-api-key': 'made-up' }))).toBe('ip:unknown');
+  });
+
+  it('ignores forwarding headers unless proxies are trusted', () => {
+    expect(getClientKey(request({ 'x-forwarded-for': '203.0.113.7' }))).toBe('ip:unknown');
+  });
+
+  it('takes the address the trusted proxies added, not one the client made up', () => {
+    vi.stubEnv('TRUSTED_PROXY_COUNT', '1');
+
+    expect(getClientKey(request({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7' }))).toBe('ip:203.0.113.7');
+    expect(getClientKey(request({ 'x-real-ip': '203.0.113.9' }))).toBe('ip:203.0.113.9');
+  });
+});
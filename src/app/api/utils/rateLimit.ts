@@ -0,0 +1,155 @@
+import { NextRequest } from 'next/server';
+import { createCorsResponse } from './cors';
+import { readList, readNumber } from './env';
+
+// Fixed-window rate limiting, keyed on the calling client and on each target host.
+//
+// Configuration (environment variables, a max of 0 disables the limit):
+// - RATE_LIMIT_CLIENT_MAX / RATE_LIMIT_CLIENT_WINDOW_MS: URLs a client may submit per window (default 60 per minute)
+// - RATE_LIMIT_HOST_MAX / RATE_LIMIT_HOST_WINDOW_MS: fetches to one target host per window (default 30 per minute)
+// - API_KEYS: keys accepted in X-API-Key; a client sending one of them gets its own counter
+// - TRUSTED_PROXY_COUNT: reverse proxies in front of the app (default 0). X-Forwarded-For
+//   and X-Real-IP are only read when this is set, since clients can send them too;
+//   without a proxy every anonymous client shares one counter
+//
+// Rejected requests are not counted, so a client that keeps retrying too early
+// is not locked out past the window. A request that alone would exceed the
+// client limit is refused with 400 instead, as waiting would not help.
+//
+// Counters live in memory by default; call setRateLimitStore() with a shared
+// store (e.g. Redis-backed) when running several server instances.
+
+export interface RateLimitStore {
+  // Adds `amount` to the counter for `key` unless that would take it past `limit`,
+  // and returns whether it was added, the count and when the window resets.
+  // Shared stores must check and add atomically.
+  increment(key: string, windowMs: number, amount: number, limit: number): Promise<{ allowed: boolean; count: number; resetAt: number }>;
+}
+
+export interface RateLimitRule {
+  max: number;
+  windowMs: number;
+}
+
+export type RateLimitCheck =
+  | { allowed: true }
+  | { allowed: false; retryAfterSeconds: number; limit: number; windowMs: number };
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+
+  async increment(key: string, windowMs: number, amount: number, limit: number) {
+    const now = Date.now();
+
+    // Drop expired windows now and then so the map does not grow forever
+    if (this.windows.size > 10000) {
+      for (const [storedKey, window] of this.windows) {
+        if (window.resetAt <= now) {
+          this.windows.delete(storedKey);
+        }
+      }
+    }
+
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      this.windows.set(key, window);
+    }
+    const allowed = window.count + amount <= limit;
+    if (allowed) {
+      window.count += amount;
+    }
+
+    return { allowed, ...window };
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+export function setRateLimitStore(newStore: RateLimitStore) {
+  store = newStore;
+}
+
+export function getRateLimitRules(): { client: RateLimitRule; host: RateLimitRule } {
+  return {
+    client: {
+      max: readNumber(process.env.RATE_LIMIT_CLIENT_MAX, 60),
+      windowMs: readNumber(process.env.RATE_LIMIT_CLIENT_WINDOW_MS, 60000),
+    },
+    host: {
+      max: readNumber(process.env.RATE_LIMIT_HOST_MAX, 30),
+      windowMs: readNumber(process.env.RATE_LIMIT_HOST_WINDOW_MS, 60000),
+    },
+  };
+}
+
+// Helper function to identify the caller: a configured API key if one is sent,
+// else the client IP reported by the trusted proxies
+export function getClientKey(request: NextRequest): string {
+  const apiKey = request.headers.get('x-api-key');
+  if (apiKey && readList(process.env.API_KEYS).includes(apiKey)) {
+    return `key:${apiKey}`;
+  }
+
+  const trustedProxies = Math.floor(readNumber(process.env.TRUSTED_PROXY_COUNT, 0));
+  if (trustedProxies === 0) {
+    return 'ip:unknown';
+  }
+
+  // Each proxy appends the address it saw, so entries left of the ones our
+  // proxies added may have been made up by the client
+  const forwardedFor = readList(request.headers.get('x-forwarded-for') || undefined);
+  const clientIp = forwardedFor.length >= trustedProxies
+    ? forwardedFor[forwardedFor.length - trustedProxies]
+    : request.headers.get('x-real-ip');
+  return `ip:${clientIp || 'unknown'}`;
+}
+
+export async function checkRateLimit(scope: 'client' | 'host', id: string, amount: number = 1): Promise<RateLimitCheck> {
+  const rule = getRateLimitRules()[scope];
+  if (rule.max <= 0) {
+    return { allowed: true };
+  }
+
+  const { allowed, resetAt } = await store.increment(`${scope}:${id}`, rule.windowMs, amount, rule.max);
+  if (allowed) {
+    return { allowed: true };
+  }
+
+  return {
+    allowed: false,
+    retryAfterSeconds: Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)),
+    limit: rule.max,
+    windowMs: rule.windowMs,
+  };
+}
+
+// Checks the client limit for a request that will fetch `urlCount` URLs and
+// returns the 400 or 429 response to send back, or null when the request may proceed
+export async function enforceClientRateLimit(request: NextRequest, urlCount: number = 1) {
+  const rule = getRateLimitRules().client;
+  if (rule.max > 0 && urlCount > rule.max) {
+    return createCorsResponse(
+      {
+        error: `This request may fetch up to ${urlCount} URLs, more than the ${rule.max} per ${Math.round(rule.windowMs / 1000)}s a client is allowed. Send fewer URLs or a lower discover.maxPages`,
+        code: 'INVALID_REQUEST',
+      },
+      400
+    );
+  }
+
+  const check = await checkRateLimit('client', getClientKey(request), urlCount);
+  if (check.allowed) {
+    return null;
+  }
+
+  return createCorsResponse(
+    {
+      error: `Rate limit exceeded: at most ${check.limit} URLs per ${Math.round(check.windowMs / 1000)}s. Try again in ${check.retryAfterSeconds}s`,
+      code: 'RATE_LIMITED',
+      retryAfterSeconds: check.retryAfterSeconds,
+    },
+    429,
+    { 'Retry-After': String(check.retryAfterSeconds) }
+  );
+}
@@ -0,0 +1,115 @@
+// Reading and decoding fetched pages.
+//
+// Configuration (environment variables):
+// - FETCH_MAX_BODY_BYTES: bytes read from a page before it is cut off (default 5 MB)
+// - FETCH_REJECT_OVERSIZED: "true" to fail with TOO_LARGE instead of truncating
+
+const DEFAULT_MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+// How far into the page to look for a <meta> charset, as browsers do
+const META_PRESCAN_BYTES = 1024;
+
+export type CharsetSource = 'bom' | 'header' | 'meta' | 'default';
+
+export interface DecodedBody {
+  text: string;
+  charset: string; // Encoding the body was decoded with, e.g. "utf-8" or "shift_jis"
+  charsetSource: CharsetSource;
+}
+
+export function getBodyLimits(): { maxBytes: number; rejectOversized: boolean } {
+  const maxBytes = Number(process.env.FETCH_MAX_BODY_BYTES);
+  return {
+    maxBytes: Number.isFinite(maxBytes) && maxBytes > 0 ? maxBytes : DEFAULT_MAX_BODY_BYTES,
+    rejectOversized: process.env.FETCH_REJECT_OVERSIZED === 'true',
+  };
+}
+
+// Reads at most `maxBytes` of a response (or request) body and cancels the rest of the download
+export async function readBodyLimited(response: Response | Request, maxBytes: number): Promise<{ bytes: Uint8Array; truncated: boolean }> {
+  if (!response.body) {
+    return { bytes: new Uint8Array(0), truncated: false };
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  let truncated = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    if (received + value.byteLength > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - received));
+      received = maxBytes;
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+
+    chunks.push(value);
+    received += value.byteLength;
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return { bytes, truncated };
+}
+
+// Helper function to check that TextDecoder knows an encoding label
+function toSupportedCharset(label: string | undefined | null): string | null {
+  if (!label) {
+    return null;
+  }
+  try {
+    return new TextDecoder(label.trim().toLowerCase()).encoding;
+  } catch {
+    return null;
+  }
+}
+
+function getBomCharset(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return 'utf-8';
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return 'utf-16be';
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  return null;
+}
+
+// Looks for <meta charset="..."> or <meta http-equiv="Content-Type" content="...; charset=...">
+function getMetaCharset(bytes: Uint8Array): string | null {
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, META_PRESCAN_BYTES));
+  const match = head.match(/<meta[^>]+charset\s*=\s*["']?\s*([\w.:-]+)/i);
+  return match ? match[1] : null;
+}
+
+// Picks the encoding the way browsers do: byte order mark, then the
+// Content-Type header, then a <meta> tag near the top, else UTF-8
+export function decodeBody(bytes: Uint8Array, contentType: string | null): DecodedBody {
+  const candidates: Array<[CharsetSource, string | null]> = [
+    ['bom', getBomCharset(bytes)],
+    ['header', contentType?.match(/charset\s*=\s*["']?([\w.:-]+)/i)?.[1] ?? null],
+    ['meta', getMetaCharset(bytes)],
+  ];
+
+  for (const [source, label] of candidates) {
+    const charset = toSupportedCharset(label);
+    if (charset) {
+      return { text: new TextDecoder(charset).decode(bytes), charset, charsetSource: source };
+    }
+  }
+
+  return { text: new TextDecoder('utf-8').decode(bytes), charset: 'utf-8', charsetSource: 'default' };
+}
@@ -0,0 +1,83 @@
+import { readNumber } from './env';
+
+// In-memory cache of fetched pages, keyed by normalized URL and fetch profile.
+//
+// Configuration (environment variables):
+// - FETCH_CACHE_TTL_MS: how long an entry is served without revalidation (default 5 minutes, 0 disables the cache)
+// - FETCH_CACHE_MAX_BYTES: total size of cached pages before the least recently used are evicted (default 50 MB)
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number; // Last time the entry was fetched or revalidated
+  etag: string | null;
+  lastModified: string | null;
+  size: number;
+}
+
+export interface CacheStatus {
+  hit: boolean; // Served from the cache
+  ageMs: number; // Time since the page was last fetched or revalidated
+  revalidated: boolean; // The site confirmed the cached copy with a 304
+}
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+
+// Least-recently-used cache with a byte budget; Map keeps insertion order,
+// so re-inserting on every read keeps the oldest entry first
+export class LruCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private totalSize = 0;
+
+  constructor(private maxBytes: number) {}
+
+  get(key: string): CacheEntry<T> | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry<T>) {
+    this.delete(key);
+    if (entry.size > this.maxBytes) {
+      return;
+    }
+
+    this.entries.set(key, entry);
+    this.totalSize += entry.size;
+
+    for (const [oldestKey] of this.entries) {
+      if (this.totalSize <= this.maxBytes) {
+        break;
+      }
+      this.delete(oldestKey);
+    }
+  }
+
+  delete(key: string) {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.totalSize -= entry.size;
+      this.entries.delete(key);
+    }
+  }
+}
+
+export function getCacheTtlMs(): number {
+  return readNumber(process.env.FETCH_CACHE_TTL_MS, DEFAULT_TTL_MS);
+}
+
+export function getCacheMaxBytes(): number {
+  return readNumber(process.env.FETCH_CACHE_MAX_BYTES, DEFAULT_MAX_BYTES);
+}
+
+// Helper function to build a cache key: lowercase host, no fragment, sorted query
+export function getCacheKey(url: URL, profile: string): string {
+  const normalized = new URL(url.toString());
+  normalized.hash = '';
+  normalized.searchParams.sort();
+  return `${profile}|${normalized.toString()}`;
+}
@@ -0,0 +1,118 @@
+import { createServer, RequestListener, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { checkRobots, shouldCheckRobots } from './robots';
+
+// Every test gets its own server, hence its own origin, as robots.txt is cached per origin
+const servers: Server[] = [];
+
+async function serve(handler: RequestListener): Promise<string> {
+  const server = createServer(handler);
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function serveRobots(body: string, status = 200): Promise<string> {
+  return serve((request, response) => {
+    if (request.url === '/robots.txt') {
+      response.writeHead(status, { 'Content-Type': 'text/plain' });
+      response.end(body);
+    } else {
+      response.end('page');
+    }
+  });
+}
+
+beforeAll(() => {
+  vi.stubEnv('FETCH_ALLOWED_HOSTS', '127.0.0.1');
+  vi.stubEnv('ROBOTS_USER_AGENT', 'getcovered-assessment');
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await Promise.all(servers.map(server => new Promise(resolve => server.close(resolve))));
+});
+
+describe('checkRobots', () => {
+  it('allows paths no rule matches and disallows the ones a rule does', async () => {
+    const origin = await serveRobots('User-agent: *\nDisallow: /private\n');
+
+    expect(await checkRobots(new URL('/login', origin))).toEqual({ allowed: true, crawlDelayMs: null });
+    expect(await checkRobots(new URL('/private/x', origin))).toEqual({ allowed: false, reason: 'Disallow: /private' });
+  });
+
+  it('lets the longest matching rule win, with Allow winning ties', async () => {
+    const origin = await serveRobots('User-agent: *\nDisallow: /account\nAllow: /account/login\n');
+
+    expect((await checkRobots(new URL('/account/login', origin))).allowed).toBe(true);
+    expect((await checkRobots(new URL('/account/settings', origin))).allowed).toBe(false);
+  });
+
+  it('supports * and $ in paths', async () => {
+    const origin = await serveRobots('User-agent: *\nDisallow: /*.php$\n');
+
+    expect((await checkRobots(new URL('/wp-login.php', origin))).allowed).toBe(false);
+    expect((await checkRobots(new URL('/wp-login.php?redirect=1', origin))).allowed).toBe(true);
+  });
+
+  it('prefers the group naming our user agent over the * group', async () => {
+    const origin = await serveRobots([
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: getcovered-assessment',
+      'Disallow: /admin',
+      'Crawl-delay: 2',
+    ].join('\n'));
+
+    expect(await checkRobots(new URL('/login', origin))).toEqual({ allowed: true, crawlDelayMs: 2000 });
+    expect((await checkRobots(new URL('/admin', origin))).allowed).toBe(false);
+  });
+
+  it('allows everything when robots.txt is missing', async () => {
+    const origin = await serveRobots('Not found', 404);
+
+    expect((await checkRobots(new URL('/anything', origin))).allowed).toBe(true);
+  });
+
+  it('disallows everything when robots.txt fails with a server error', async () => {
+    const origin = await serveRobots('Oops', 503);
+
+    expect(await checkRobots(new URL('/login', origin))).toEqual({ allowed: false, reason: 'robots.txt returned 503' });
+  });
+
+  it('follows redirects to robots.txt on the same host', async () => {
+    const origin = await serve((request, response) => {
+      if (request.url === '/robots.txt') {
+        response.writeHead(301, { Location: '/static/robots.txt' });
+        response.end();
+      } else {
+        response.end('User-agent: *\nDisallow: /private\n');
+      }
+    });
+
+    expect((await checkRobots(new URL('/private', origin))).allowed).toBe(false);
+  });
+
+  it('refuses redirects that the SSRF guard blocks', async () => {
+    const origin = await serve((request, response) => {
+      response.writeHead(302, { Location: 'http://169.254.169.254/robots.txt' });
+      response.end();
+    });
+
+    const check = await checkRobots(new URL('/login', origin));
+    expect(check.allowed).toBe(false);
+  });
+});
+
+describe('shouldCheckRobots', () => {
+  it('only checks when asked to, unless ROBOTS_MODE=enforce', () => {
+    vi.stubEnv('ROBOTS_MODE', '');
+    expect(shouldCheckRobots(undefined)).toBe(false);
+    expect(shouldCheckRobots(true)).toBe(true);
+
+    vi.stubEnv('ROBOTS_MODE', 'enforce');
+    expect(shouldCheckRobots(false)).toBe(true);
+  });
+});
@@ -0,0 +1,239 @@
+import { checkTarget, getGuardedDispatcher } from './targetGuard';
+import { readBodyLimited } from './responseBody';
+
+// robots.txt support for the fetch subsystem (RFC 9309).
+//
+// Configuration (environment variables):
+// - ROBOTS_MODE: "opt-in" (default: only requests that send `respectRobots: true`)
+//   or "enforce" (every fetch)
+// - ROBOTS_USER_AGENT: product token matched against User-agent lines (default "getcovered-assessment")
+//
+// robots.txt is cached per origin. A missing robots.txt (4xx) allows
+// everything; one that cannot be fetched (5xx, network error) disallows
+// everything until the next try, as the RFC asks.
+
+const ROBOTS_CACHE_TTL_MS = 60 * 60 * 1000;
+const ROBOTS_ERROR_TTL_MS = 5 * 60 * 1000;
+const ROBOTS_CACHE_MAX_ENTRIES = 1000;
+const ROBOTS_MAX_BYTES = 500 * 1024; // The RFC lets crawlers ignore anything past 500 KiB
+const ROBOTS_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+const MAX_CRAWL_DELAY_MS = 30000;
+
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelayMs: number | null;
+}
+
+interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelayMs: number | null;
+  disallowAll?: string; // Set when robots.txt could not be fetched, with the reason
+}
+
+export type RobotsCheck =
+  | { allowed: true; crawlDelayMs: number | null }
+  | { allowed: false; reason: string };
+
+const robotsCache = new Map<string, { policy: RobotsPolicy; expiresAt: number }>();
+const lastFetchByHost = new Map<string, number>();
+
+export function getRobotsConfig(): { mode: 'opt-in' | 'enforce'; userAgent: string } {
+  return {
+    mode: process.env.ROBOTS_MODE === 'enforce' ? 'enforce' : 'opt-in',
+    userAgent: (process.env.ROBOTS_USER_AGENT || 'getcovered-assessment').toLowerCase(),
+  };
+}
+
+// Tells whether robots.txt applies to a fetch, given what the request asked for
+export function shouldCheckRobots(requested: boolean | undefined): boolean {
+  return getRobotsConfig().mode === 'enforce' || requested === true;
+}
+
+// Splits robots.txt into groups; consecutive User-agent lines share one group
+function parseRobotsTxt(text: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelayMs: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) {
+      continue;
+    }
+
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay') {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0) {
+        current.crawlDelayMs = seconds * 1000;
+      }
+    }
+  }
+
+  return groups;
+}
+
+// Helper function to pick the rules for our user agent: every group naming it,
+// else every "*" group
+function selectPolicy(groups: RobotsGroup[], userAgent: string): RobotsPolicy {
+  const named = groups.filter(group => group.agents.some(agent => agent !== '*' && userAgent.includes(agent)));
+  const selected = named.length > 0 ? named : groups.filter(group => group.agents.includes('*'));
+  const delays = selected.map(group => group.crawlDelayMs).filter((delay): delay is number => delay !== null);
+
+  return {
+    rules: selected.flatMap(group => group.rules),
+    crawlDelayMs: delays.length > 0 ? Math.max(...delays) : null,
+  };
+}
+
+// Helper function to match a rule path, with `*` wildcards and a `$` end anchor
+function matchesRulePath(path: string, rulePath: string): boolean {
+  const anchored = rulePath.endsWith('$');
+  const pattern = (anchored ? rulePath.slice(0, -1) : rulePath)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${pattern}${anchored ? '$' : ''}`).test(path);
+}
+
+// The longest matching rule wins; on a tie, Allow does
+function findMatchingRule(policy: RobotsPolicy, path: string): RobotsRule | null {
+  let best: RobotsRule | null = null;
+  for (const rule of policy.rules) {
+    if (!matchesRulePath(path, rule.path)) {
+      continue;
+    }
+    if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best;
+}
+
+// Helper function to download robots.txt, re-checking every redirect with the SSRF guard
+async function loadRobotsPolicy(origin: URL, userAgent: string): Promise<{ policy: RobotsPolicy; ttlMs: number }> {
+  let url = new URL('/robots.txt', origin);
+
+  try {
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const check = await checkTarget(url);
+      if (!check.allowed) {
+        return { policy: { rules: [], crawlDelayMs: null, disallowAll: `robots.txt redirect refused: ${check.reason}` }, ttlMs: ROBOTS_ERROR_TTL_MS };
+      }
+
+      const response = await fetch(url.toString(), {
+        redirect: 'manual',
+        headers: { 'User-Agent': userAgent, 'Accept': 'text/plain' },
+        signal: AbortSignal.timeout(ROBOTS_TIMEOUT_MS),
+        dispatcher: getGuardedDispatcher(), // Node-only option, missing from the DOM RequestInit type
+      } as RequestInit);
+      const location = response.headers.get('location');
+
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        url = new URL(location, url);
+        continue;
+      }
+
+      if (response.status >= 400 && response.status < 500) {
+        await response.body?.cancel();
+        return { policy: { rules: [], crawlDelayMs: null }, ttlMs: ROBOTS_CACHE_TTL_MS };
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        return { policy: { rules: [], crawlDelayMs: null, disallowAll: `robots.txt returned ${response.status}` }, ttlMs: ROBOTS_ERROR_TTL_MS };
+      }
+
+      // Stop downloading at the cap instead of reading an oversized file into memory
+      const { bytes } = await readBodyLimited(response, ROBOTS_MAX_BYTES);
+      const text = new TextDecoder('utf-8').decode(bytes);
+      return { policy: selectPolicy(parseRobotsTxt(text), userAgent), ttlMs: ROBOTS_CACHE_TTL_MS };
+    }
+
+    return { policy: { rules: [], crawlDelayMs: null, disallowAll: 'robots.txt redirected too many times' }, ttlMs: ROBOTS_ERROR_TTL_MS };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'unknown error';
+    return { policy: { rules: [], crawlDelayMs: null, disallowAll: `robots.txt could not be fetched: ${message}` }, ttlMs: ROBOTS_ERROR_TTL_MS };
+  }
+}
+
+export async function checkRobots(url: URL): Promise<RobotsCheck> {
+  const { userAgent } = getRobotsConfig();
+  const now = Date.now();
+
+  let cached = robotsCache.get(url.origin);
+  if (!cached || cached.expiresAt <= now) {
+    const { policy, ttlMs } = await loadRobotsPolicy(url, userAgent);
+    cached = { policy, expiresAt: now + ttlMs };
+
+    // Oldest entries go first once the cache is full
+    if (robotsCache.size >= ROBOTS_CACHE_MAX_ENTRIES) {
+      robotsCache.delete(robotsCache.keys().next().value!);
+    }
+    robotsCache.set(url.origin, cached);
+  }
+
+  const { policy } = cached;
+  if (policy.disallowAll) {
+    return { allowed: false, reason: policy.disallowAll };
+  }
+
+  // /robots.txt itself is always allowed
+  const path = `${url.pathname}${url.search}`;
+  const rule = url.pathname === '/robots.txt' ? null : findMatchingRule(policy, path);
+  if (rule && !rule.allow) {
+    return { allowed: false, reason: `Disallow: ${rule.path}` };
+  }
+
+  return { allowed: true, crawlDelayMs: policy.crawlDelayMs };
+}
+
+// Waits until the host's crawl-delay has passed since our last fetch from it
+export async function waitForCrawlDelay(host: string, crawlDelayMs: number | null): Promise<void> {
+  const delayMs = Math.min(crawlDelayMs || 0, MAX_CRAWL_DELAY_MS);
+  const lastFetch = lastFetchByHost.get(host);
+  const waitMs = lastFetch === undefined ? 0 : lastFetch + delayMs - Date.now();
+
+  // Forget hosts whose delay has long passed so the map does not grow forever
+  if (lastFetchByHost.size > 10000) {
+    for (const [storedHost, fetchedAt] of lastFetchByHost) {
+      if (fetchedAt + MAX_CRAWL_DELAY_MS < Date.now()) {
+        lastFetchByHost.delete(storedHost);
+      }
+    }
+  }
+
+  // Reserve the slot before sleeping so concurrent fetches queue up behind it
+  lastFetchByHost.set(host, Date.now() + Math.max(0, waitMs));
+  if (waitMs > 0) {
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+  }
+}
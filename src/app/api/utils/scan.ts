@@ -0,0 +1,129 @@
+import { AuthForm, FederatedLogin, PasskeySupport, findAuthForms, findFederatedLogins, findPasskeySupport } from '../../utils/htmlParser';
+import { AuthVendorMatch, fingerprintAuthVendor } from '../../utils/authVendors';
+import { auditAuthForms } from '../../utils/securityAudit';
+import { decodeBody } from './responseBody';
+
+// Scanning pages we already have (uploaded HTML, HAR exports from a browser
+// session, pasted snippets) without fetching anything.
+
+export const SCAN_LIMITS = {
+  maxBytes: 20 * 1024 * 1024, // Total size of the uploaded files
+  maxDocuments: 50,
+};
+
+export interface ScanSource {
+  kind: 'html' | 'har' | 'snippet';
+  name: string; // File name, or "Pasted HTML"
+  url: string | null; // Page URL, known for HAR entries
+}
+
+export interface ScanDocument {
+  source: ScanSource;
+  authForms: AuthForm[];
+  federatedLogins: FederatedLogin[];
+  passkeys: PasskeySupport;
+  authVendors: AuthVendorMatch[];
+}
+
+export interface ScanReport {
+  documents: ScanDocument[];
+  skipped: Array<{ name: string; reason: string }>;
+}
+
+interface ExtractedDocument {
+  source: ScanSource;
+  html: string;
+  strictTransportSecurity?: string | null; // Known for HAR entries, which keep the response headers
+}
+
+// Helper function to pull the HTML responses out of a HAR export, with the URL
+// each one was loaded from
+function extractHarDocuments(name: string, har: any): ExtractedDocument[] | { error: string } {
+  const entries = har?.log?.entries;
+  if (!Array.isArray(entries)) {
+    return { error: 'not a HAR file (no log.entries)' };
+  }
+
+  return entries
+    .filter(entry =>
+      /text\/html|application\/xhtml\+xml/i.test(entry?.response?.content?.mimeType || '')
+      && typeof entry.response.content.text === 'string'
+    )
+    .map(entry => {
+      const content = entry.response.content;
+      const headers: any[] = Array.isArray(entry.response.headers) ? entry.response.headers : [];
+      const hsts = headers.find(header => String(header?.name).toLowerCase() === 'strict-transport-security');
+      return {
+        source: { kind: 'har' as const, name, url: typeof entry.request?.url === 'string' ? entry.request.url : null },
+        // Base64 bodies are the raw bytes, in the page's own encoding
+        html: content.encoding === 'base64' ? decodeBody(Buffer.from(content.text, 'base64'), content.mimeType).text : content.text,
+        strictTransportSecurity: headers.length > 0 ? (hsts ? String(hsts.value) : null) : undefined,
+      };
+    });
+}
+
+// Helper function to tell a HAR export from an HTML page
+function isHar(name: string, text: string): boolean {
+  return /\.har$/i.test(name) || /^\s*\{\s*"log"/.test(text);
+}
+
+// Helper function to decode an uploaded file: HAR exports are JSON, which is
+// always UTF-8, while HTML pages are decoded like fetched ones (byte order
+// mark, the upload's Content-Type, then <meta charset>)
+export function decodeUpload(name: string, bytes: Uint8Array, contentType: string | null): string {
+  const utf8 = new TextDecoder('utf-8').decode(bytes);
+  return isHar(name, utf8) ? utf8 : decodeBody(bytes, contentType).text;
+}
+
+// Turns one uploaded file into the HTML documents it holds: a HAR export can
+// hold many, anything else is taken as a single HTML page
+export function extractDocuments(name: string, text: string): ExtractedDocument[] | { error: string } {
+  if (isHar(name, text)) {
+    try {
+      return extractHarDocuments(name, JSON.parse(text));
+    } catch {
+      return { error: 'not valid HAR JSON' };
+    }
+  }
+
+  return [{ source: { kind: 'html', name, url: null }, html: text }];
+}
+
+// Runs the parser on every document and reports what could not be scanned
+export function scanDocuments(uploads: Array<{ name: string; text: string; kind?: 'snippet' }>): ScanReport {
+  const report: ScanReport = { documents: [], skipped: [] };
+
+  for (const upload of uploads) {
+    const extracted = upload.kind === 'snippet'
+      ? [{ source: { kind: 'snippet' as const, name: upload.name, url: null }, html: upload.text }]
+      : extractDocuments(upload.name, upload.text);
+
+    if ('error' in extracted) {
+      report.skipped.push({ name: upload.name, reason: extracted.error });
+      continue;
+    }
+    if (extracted.length === 0) {
+      report.skipped.push({ name: upload.name, reason: 'no HTML responses in the HAR file' });
+      continue;
+    }
+
+    for (const document of extracted) {
+      if (report.documents.length >= SCAN_LIMITS.maxDocuments) {
+        report.skipped.push({ name: document.source.url || upload.name, reason: `over the ${SCAN_LIMITS.maxDocuments} document limit` });
+        continue;
+      }
+      report.documents.push({
+        source: document.source,
+        authForms: auditAuthForms(document.html, findAuthForms(document.html, document.source.url || undefined), {
+          url: document.source.url,
+          strictTransportSecurity: document.strictTransportSecurity,
+        }),
+        federatedLogins: findFederatedLogins(document.html, document.source.url || undefined),
+        passkeys: findPasskeySupport(document.html),
+        authVendors: fingerprintAuthVendor(document.html, document.source.url || undefined),
+      });
+    }
+  }
+
+  return report;
+}
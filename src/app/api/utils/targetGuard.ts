@@ -0,0 +1,193 @@
+import { lookup as lookupCallback, LookupAddress, LookupOptions } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { Agent } from 'undici';
+
+// SSRF protection: decides whether the server may fetch a given URL.
+//
+// Configuration (comma-separated environment variables):
+// - FETCH_ALLOWED_HOSTS: hosts, IPs or IPv4 CIDRs that skip the address and port
+//   checks, for internal testing (e.g. "localhost,127.0.0.1,*.staging.internal")
+// - FETCH_BLOCKED_HOSTS: hosts, IPs or IPv4 CIDRs that are always refused
+// - FETCH_ALLOWED_PORTS: extra ports allowed besides 80 and 443
+//
+// checkTarget() resolves the hostname once to give a readable reason, but fetch()
+// resolves it again when it connects. Requests must therefore go through
+// getGuardedDispatcher(), which re-checks the addresses used for the connection,
+// so a DNS record that changes in between (DNS rebinding) is still refused.
+
+export interface TargetPolicy {
+  allowedHosts: string[];
+  blockedHosts: string[];
+  allowedPorts: number[];
+}
+
+export type TargetCheck = { allowed: true } | { allowed: false; reason: string };
+
+const ALLOWED_PROTOCOLS = ['http:', 'https:'];
+const DEFAULT_PORTS = [80, 443];
+
+// Cloud metadata endpoints that must never be fetched, whatever they resolve to
+const DEFAULT_BLOCKED_HOSTS = ['metadata.google.internal', 'metadata.azure.com', 'instance-data'];
+
+// Loopback, private, link-local, carrier-grade NAT, multicast, reserved and
+// documentation ranges
+const blockedAddresses = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24],
+  ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24],
+  ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10],
+  ['ff00::', 8], ['2001:db8::', 32], ['64:ff9b::', 96], ['100::', 64], ['2002::', 16],
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network as string, prefix as number, 'ipv6'));
+
+const splitList = (value: string | undefined) =>
+  (value || '').split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean);
+
+export function getTargetPolicy(): TargetPolicy {
+  return {
+    allowedHosts: splitList(process.env.FETCH_ALLOWED_HOSTS),
+    blockedHosts: [...DEFAULT_BLOCKED_HOSTS, ...splitList(process.env.FETCH_BLOCKED_HOSTS)],
+    allowedPorts: [
+      ...DEFAULT_PORTS,
+      ...splitList(process.env.FETCH_ALLOWED_PORTS).map(Number).filter(Number.isInteger),
+    ],
+  };
+}
+
+// Helper function to unwrap IPv4-mapped IPv6 addresses (::ffff:127.0.0.1 or ::ffff:7f00:1)
+function normalizeAddress(address: string): string {
+  const mapped = address.toLowerCase().match(/^::ffff:(.+)$/);
+  if (!mapped) {
+    return address;
+  }
+  if (isIP(mapped[1]) === 4) {
+    return mapped[1];
+  }
+  const hex = mapped[1].match(/^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (!hex) {
+    return address;
+  }
+  const high = parseInt(hex[1], 16);
+  const low = parseInt(hex[2], 16);
+  return [high >> 8, high & 255, low >> 8, low & 255].join('.');
+}
+
+// Helper function to match a hostname or address against a policy list entry
+// ("example.com", "*.example.com", "10.1.2.3" or "10.0.0.0/8")
+function matchesEntry(entry: string, hostname: string, addresses: string[]): boolean {
+  if (entry.startsWith('*.')) {
+    return hostname.endsWith(entry.slice(1));
+  }
+
+  const cidr = entry.match(/^(\d+\.\d+\.\d+\.\d+)\/(\d+)$/);
+  if (cidr) {
+    const range = new BlockList();
+    range.addSubnet(cidr[1], Number(cidr[2]), 'ipv4');
+    return addresses.some(address => isIP(address) === 4 && range.check(address, 'ipv4'));
+  }
+
+  return entry === hostname || addresses.includes(entry);
+}
+
+export function isBlockedAddress(address: string): boolean {
+  const normalized = normalizeAddress(address);
+  const family = isIP(normalized);
+  if (family === 0) {
+    return true;
+  }
+  return blockedAddresses.check(normalized, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Checks the scheme, port, host lists and every address the hostname resolves to.
+// Call it for the initial URL and again for every redirect hop.
+export async function checkTarget(url: URL, policy: TargetPolicy = getTargetPolicy()): Promise<TargetCheck> {
+  if (!ALLOWED_PROTOCOLS.includes(url.protocol)) {
+    return { allowed: false, reason: `Scheme "${url.protocol}" is not allowed` };
+  }
+
+  if (url.username || url.password) {
+    return { allowed: false, reason: 'URLs with embedded credentials are not allowed' };
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname)
+      ? [hostname]
+      : (await lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+  } catch {
+    // Unresolvable hosts are left for fetch() to report as a DNS failure
+    addresses = [];
+  }
+  const normalizedAddresses = addresses.map(normalizeAddress);
+
+  if (policy.blockedHosts.some(entry => matchesEntry(entry, hostname, normalizedAddresses))) {
+    return { allowed: false, reason: `Host "${hostname}" is on the deny list` };
+  }
+
+  if (policy.allowedHosts.some(entry => matchesEntry(entry, hostname, normalizedAddresses))) {
+    return { allowed: true };
+  }
+
+  const port = Number(url.port || (url.protocol === 'https:' ? 443 : 80));
+  if (!policy.allowedPorts.includes(port)) {
+    return { allowed: false, reason: `Port ${port} is not allowed` };
+  }
+
+  const blockedAddress = addresses.find(isBlockedAddress);
+  if (blockedAddress) {
+    return {
+      allowed: false,
+      reason: `Host "${hostname}" resolves to a private or reserved address (${blockedAddress})`,
+    };
+  }
+
+  return { allowed: true };
+}
+
+// Helper function used as the dispatcher's DNS lookup: resolves the hostname and
+// refuses the connection if any address it gets is private or reserved
+function guardedLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+) {
+  lookupCallback(hostname, { ...options, all: true }, (error, entries) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    const policy = getTargetPolicy();
+    const addresses = entries.map(entry => normalizeAddress(entry.address));
+    const name = hostname.toLowerCase().replace(/\.$/, '');
+    const isAllowedHost = policy.allowedHosts.some(entry => matchesEntry(entry, name, addresses));
+    const blockedAddress = isAllowedHost ? undefined : entries.find(entry => isBlockedAddress(entry.address));
+    if (blockedAddress) {
+      callback(
+        Object.assign(new Error(`Host "${name}" resolves to a private or reserved address (${blockedAddress.address})`), { code: 'ETARGETBLOCKED' }),
+        []
+      );
+      return;
+    }
+
+    if (options.all) {
+      callback(null, entries);
+    } else {
+      callback(null, entries[0].address, entries[0].family);
+    }
+  });
+}
+
+let guardedDispatcher: Agent | null = null;
+
+// Dispatcher to pass to every server-side fetch() of a user-supplied URL
+export function getGuardedDispatcher(): Agent {
+  guardedDispatcher ??= new Agent({ connect: { lookup: guardedLookup } });
+  return guardedDispatcher;
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { createPortal } from "react-dom";
 import styles from "./index.module.scss";
-import { AuthForm } from "../../utils/htmlParser";
+import { AuthForm, AUTH_FORM_PURPOSE_LABELS, FederatedLogin } from "../../utils/htmlParser";
 import Prism from 'prismjs';
 import 'prismjs/components/prism-markup';
 import 'prismjs/themes/prism-tomorrow.css';
@@ -50,11 +50,13 @@ function formatHtml(html: string): string {
 
 interface AuthenticationProps {
   authForm: AuthForm;
+  label?: string; // e.g. "Form 2 of 3" when a page has several auth forms
+  federatedLogins?: FederatedLogin[]; // Social and SSO options offered next to this form
   isVisible: boolean;
   onToggle: () => void;
 }
 
-export default function Authentication({ authForm, isVisible, onToggle }: AuthenticationProps) {
+export default function Authentication({ authForm, label, federatedLogins = [], isVisible, onToggle }: AuthenticationProps) {
   const [showDetails, setShowDetails] = useState(false);
   const [showExpandedHtml, setShowExpandedHtml] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -79,16 +81,22 @@ export default function Authentication({ authForm, isVisible, onToggle }: Authen
     setFontSize(prev => Math.max(prev - 1, 8)); // Min 8px
   };
 
-  if (!authForm.hasPasswordInput) {
-    return null;
-  }
-
   return (
     <div className={styles.container}>
       <div className={styles.header}>
         <div className={styles.title}>
           <img src="/lock.png" alt="Lock" className={styles.icon} />
           <span>Auth Detected</span>
+          <span className={`${styles.purposeBadge} ${styles[authForm.purpose] || ''}`}>
+            {AUTH_FORM_PURPOSE_LABELS[authForm.purpose]}
+          </span>
+          <span className={styles.confidence} title="Detection confidence">{authForm.confidence}%</span>
+          {authForm.findings.length > 0 && (
+            <span className={`${styles.findingCount} ${styles[authForm.findings[0].severity]}`} title="Security findings">
+              {authForm.findings.length} issue{authForm.findings.length > 1 ? 's' : ''}
+            </span>
+          )}
+          {label && <span className={styles.formLabel}>{label}</span>}
         </div>
         <button 
           className={styles.toggleButton}
@@ -107,11 +115,44 @@ export default function Authentication({ authForm, isVisible, onToggle }: Authen
         </button>
       </div>
 
+      {federatedLogins.length > 0 && (
+        <div className={styles.federated}>
+          <span>Or sign in with:</span>
+          {federatedLogins.map(login => (
+            <span key={login.provider} className={styles.providerBadge} title={login.evidence.join('\n')}>
+              {login.provider}
+            </span>
+          ))}
+        </div>
+      )}
+
       {isVisible && (
         <div className={styles.content}>
+          {/* Security findings, most severe first */}
+          {authForm.findings.length > 0 && (
+            <div className={styles.findings}>
+              <h4>Security Findings:</h4>
+              <ul>
+                {authForm.findings.map(finding => (
+                  <li key={finding.id} className={styles[finding.severity]}>
+                    <p>
+                      <span className={styles.severity}>{finding.severity}</span>
+                      <strong>{finding.title}</strong>
+                    </p>
+                    <p>{finding.explanation}</p>
+                    <ul className={styles.findingEvidence}>
+                      {finding.evidence.map(item => <li key={item}>{item}</li>)}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Default view: Raw HTML */}
           <div className={styles.rawHtml}>
             <h4>Parent Element HTML:</h4>
+            {authForm.domPath && <p className={styles.domPath}>{authForm.domPath}</p>}
             <div className={styles.htmlPreview}>
               <pre className={`${styles.htmlCode} language-markup`}>
                 <code>
@@ -157,10 +198,78 @@ export default function Authentication({ authForm, isVisible, onToggle }: Authen
                   <div className={styles.summary}>
                     <p>Summary:</p>
                     <ul>
+                      <li>Purpose: {AUTH_FORM_PURPOSE_LABELS[authForm.purpose]}</li>
+                      {authForm.domPath && <li>Location: {authForm.domPath}</li>}
                       <li>{authForm.passwordInputs.length + authForm.otherInputs.length} inputs found</li>
                       <li>Example: {authForm.otherInputs.map(input => input.name || input.id || input.type).slice(0, 6).join(', ') || 'N/A'}</li>
                     </ul>
                   </div>
+                  <h4>Confidence: {authForm.confidence}%</h4>
+                  <ul className={styles.signals}>
+                    {authForm.signals.map(signal => (
+                      <li key={signal.id} className={signal.weight < 0 ? styles.negativeSignal : ''}>
+                        <span>{signal.label}</span>
+                        <span className={styles.signalWeight}>{signal.weight > 0 ? `+${signal.weight}` : signal.weight}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  {authForm.submission && (
+                    <>
+                      <h4>Submission:</h4>
+                      <ul className={styles.submission}>
+                        <li>Action: <code>{authForm.submission.action || (authForm.submission.method ? 'N/A (not resolvable)' : 'N/A (not a <form>)')}</code></li>
+                        {authForm.submission.method && <li>Method: {authForm.submission.method}</li>}
+                        {authForm.submission.enctype && <li>Enctype: {authForm.submission.enctype}</li>}
+                        <li>
+                          Hidden fields: {authForm.submission.hiddenFields.length === 0 ? 'none' : authForm.submission.hiddenFields.map(field => (
+                            <span key={field.name} className={`${styles.hiddenField} ${field.likelyCsrf ? styles.csrf : ''}`}>
+                              {field.name}{field.likelyCsrf && ' (CSRF token)'}
+                            </span>
+                          ))}
+                        </li>
+                        <li>
+                          Submit controls: {authForm.submission.submitControls.length === 0 ? 'none' : authForm.submission.submitControls.map((control, index) => (
+                            <span key={index} className={styles.hiddenField}>
+                              &lt;{control.tag} type=&quot;{control.type}&quot;&gt; {control.text || '(no text)'}
+                              {control.formAction && <> → {control.formAction}</>}
+                            </span>
+                          ))}
+                        </li>
+                        <li className={authForm.submission.jsDriven ? styles.jsDriven : ''}>
+                          {authForm.submission.jsDriven
+                            ? `Likely submitted by JavaScript: ${authForm.submission.jsDrivenReasons.join('; ')}`
+                            : 'Submitted natively by the browser'}
+                        </li>
+                      </ul>
+                    </>
+                  )}
+                  {federatedLogins.length > 0 && (
+                    <>
+                      <h4>Single Sign-On:</h4>
+                      <ul className={styles.providers}>
+                        {federatedLogins.map(login => (
+                          <li key={login.provider}>
+                            <p>
+                              <strong>{login.provider}</strong>
+                              {login.protocol !== 'unknown' && <span className={styles.protocol}>{login.protocol.toUpperCase()}</span>}
+                              {login.label && <span> &ldquo;{login.label}&rdquo;</span>}
+                            </p>
+                            {login.href && <p className={styles.providerHref}>{login.href}</p>}
+                            {login.oauth && (
+                              <p className={styles.providerHref}>
+                                {login.oauth.authorizeEndpoint && <>Endpoint: {login.oauth.authorizeEndpoint} · </>}
+                                Client ID: {login.oauth.clientId || 'N/A'}
+                                {login.oauth.scopes.length > 0 && <> · Scopes: {login.oauth.scopes.join(' ')}</>}
+                              </p>
+                            )}
+                            <ul>
+                              {login.evidence.map(item => <li key={item}>{item}</li>)}
+                            </ul>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
                   <h4>Authentication Inputs:</h4>
                   <div className={styles.inputs}>
                     {(() => {
@@ -196,6 +305,7 @@ export default function Authentication({ authForm, isVisible, onToggle }: Authen
                             {input.name && <span className={styles.label}>Name: {input.name}</span>}
                             {input.id && input.type && <span className={styles.label}>Type: {input.type}</span>}
                             {input.placeholder && <span className={styles.label}>Placeholder: {input.placeholder}</span>}
+                            {input.autocomplete && <span className={styles.label}>Autocomplete: {input.autocomplete}</span>}
                           </div>
                         </div>
                       ));
@@ -0,0 +1,39 @@
+import styles from "./index.module.scss";
+import { FetchAttempt } from "../../utils/apiErrors";
+
+// Lists every fetch attempt behind a result: which profile ran, what it sent,
+// what came back and why the next profile was tried
+export default function FetchTrace({ attempts }: { attempts: FetchAttempt[] }) {
+    if (attempts.length === 0) {
+        return <p className={styles.empty}>No request reached the site (the request was refused before fetching).</p>;
+    }
+
+    return (
+        <ol className={styles.trace}>
+            {attempts.map((attempt, index) => (
+                <li key={index} className={attempt.failureReason ? styles.failed : styles.succeeded}>
+                    <div className={styles.summary}>
+                        <strong>{attempt.profile}</strong>
+                        <span>{attempt.status ?? 'no response'}</span>
+                        <span>{attempt.durationMs} ms</span>
+                        <span>{attempt.bytes} bytes</span>
+                    </div>
+                    {attempt.failureReason && <p className={styles.reason}>{attempt.failureReason}</p>}
+                    <details>
+                        <summary>Request headers</summary>
+                        <pre>{formatHeaders(attempt.requestHeaders)}</pre>
+                    </details>
+                    {Object.keys(attempt.responseHeaders).length > 0 && (
+                        <details>
+                            <summary>Response headers</summary>
+                            <pre>{formatHeaders(attempt.responseHeaders)}</pre>
+                        </details>
+                    )}
+                </li>
+            ))}
+        </ol>
+    );
+}
+
+const formatHeaders = (headers: Record<string, string>) =>
+    Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n');
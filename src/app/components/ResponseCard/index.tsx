@@ -1,20 +1,58 @@
 import { useState, useEffect } from "react";
 import styles from "./index.module.scss";
-import { parseHtmlForAuthForms, AuthForm } from "../../utils/htmlParser";
+import { AuthForm, FederatedLogin, PasskeySupport } from "../../utils/htmlParser";
+import { getHostname, isSameSite } from "../../utils/urls";
+import { AuthVendorMatch } from "../../utils/authVendors";
+import { API_ERROR_DETAILS, ApiErrorBody, describeBotChallenge } from "../../utils/apiErrors";
 import Authentication from "../Authentication";
+import FetchTrace from "../FetchTrace";
 
-interface HtmlResponse {
-  html: string;
+interface DetectResponse {
   url: string;
-  status: number;
-  contentType: string;
-  contentLength: number;
+  authForms: AuthForm[];
+  federatedLogins: FederatedLogin[];
+  passkeys: PasskeySupport;
+  authVendors: AuthVendorMatch[];
+  fetch: {
+    status: number;
+    contentType: string;
+    contentLength: number;
+    charset: string;
+    truncated: boolean;
+    finalUrl: string;
+    redirectChain: Array<{
+      url: string;
+      status: number;
+      location: string | null;
+      setCookieNames: string[];
+      durationMs: number;
+    }>;
+    cache: {
+      hit: boolean;
+      ageMs: number;
+      revalidated: boolean;
+    };
+    profile: string;
+  };
+  discovery?: {
+    startUrl: string;
+    loginUrl: string | null;
+    path: Array<{ url: string; linkText: string | null }>;
+    pagesFetched: number;
+  };
 }
 
-interface ErrorResponse {
-  error: string;
-  status?: number;
-  contentType?: string;
+// A page scanned by /api/scan from an upload instead of fetched
+export interface ScannedPage {
+  source: {
+    kind: 'html' | 'har' | 'snippet';
+    name: string;
+    url: string | null;
+  };
+  authForms: AuthForm[];
+  federatedLogins: FederatedLogin[];
+  passkeys: PasskeySupport;
+  authVendors: AuthVendorMatch[];
 }
 
 export default function ResponseCard({
@@ -22,59 +60,83 @@ export default function ResponseCard({
   id, 
   removeUrl, 
   isExpanded, 
-  onToggle
+  onToggle,
+  scan
 }: {
   url: string, 
   id: string, 
   removeUrl: (id: string) => void,
   isExpanded: boolean,
-  onToggle: () => void
+  onToggle: () => void,
+  scan?: ScannedPage
 }) {
-    const [htmlResponse, setHtmlResponse] = useState<HtmlResponse | null>(null);
-    const [error, setError] = useState<string | null>(null);
+    const [detection, setDetection] = useState<DetectResponse | null>(null);
+    // Errors from our own API carry a code; a failed call to the API itself does not
+    const [error, setError] = useState<Partial<ApiErrorBody> | null>(null);
     const [loading, setLoading] = useState<boolean>(false);
-    const [authForm, setAuthForm] = useState<AuthForm | null>(null);
+    // Scanned pages arrive with their results; there is nothing to fetch
+    const [authForms, setAuthForms] = useState<AuthForm[] | null>(scan ? scan.authForms : null);
+    const [expandedFormIndex, setExpandedFormIndex] = useState<number>(0);
+    const [showTrace, setShowTrace] = useState<boolean>(false);
 
-    const fetchHtml = async () => {
+    const fetchHtml = async ({ forceRefresh = false }: { forceRefresh?: boolean } = {}) => {
         setLoading(true);
         setError(null);
+        setShowTrace(false);
         
         try {
-            const response = await fetch('/api/fetch-html', {
+            // Detection runs server-side, so the raw HTML never reaches the browser
+            const response = await fetch('/api/detect', {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({ url }),
+                // Discovery follows "Sign in" links when the page itself has no form;
+                // debug brings back the fetch attempt trace for the "Why did this fail?" panel
+                body: JSON.stringify({ url, forceRefresh, discover: true, debug: true }),
             });
 
             const data = await response.json();
 
             if (!response.ok) {
-                setError(data.error || 'Failed to fetch HTML');
-                // Even if there's an error, try to parse any HTML that might be available
-                if (data.html) {
-                    const parsedAuthForm = parseHtmlForAuthForms(data.html);
-                    setAuthForm(parsedAuthForm);
-                }
+                const failure = data as ApiErrorBody;
+                setError({ ...failure, error: failure.error || 'Failed to fetch HTML' });
                 return;
             }
 
-            setHtmlResponse(data);
-            
-            // Parse HTML for authentication forms
-            if (data.html) {
-                const parsedAuthForm = parseHtmlForAuthForms(data.html);
-                setAuthForm(parsedAuthForm);
-            }
+            setDetection(data);
+            setAuthForms(data.authForms || []);
         } catch (err) {
-            setError('Network error occurred');
-            // Don't clear authForm state on network error - preserve any existing data
+            setError({ error: 'Network error occurred' });
+            // Don't clear authForms state on network error - preserve any existing data
         } finally {
             setLoading(false);
         }
     };
 
+    // Only one form's details are open at a time; the card itself tracks expansion
+    const toggleForm = (index: number) => {
+        if (isExpanded && expandedFormIndex !== index) {
+            setExpandedFormIndex(index);
+            return;
+        }
+        setExpandedFormIndex(index);
+        onToggle();
+    };
+
+    const hasAuthForms = !!authForms && authForms.length > 0;
+    const federatedLogins = detection?.federatedLogins || scan?.federatedLogins || [];
+    const passkeys = detection?.passkeys || scan?.passkeys || null;
+    const authVendor = (detection?.authVendors || scan?.authVendors || [])[0] || null;
+    // Social and SSO options are listed next to the sign-in form, or the first form when there is none
+    const federatedFormIndex = hasAuthForms
+        ? Math.max(0, authForms.findIndex(form => form.purpose === 'login' || form.purpose === 'identifier-first'))
+        : -1;
+    const errorDetails = error?.code ? API_ERROR_DETAILS[error.code] : null;
+    const redirectChain = detection?.fetch.redirectChain || [];
+    const finalHost = detection ? getHostname(detection.fetch.finalUrl) : null;
+    const isThirdPartyHost = !!finalHost && !isSameSite(finalHost, getHostname(url));
+
     const getDomain = (url: string) => {
         try {
             return new URL(url).hostname;
@@ -86,7 +148,7 @@ export default function ResponseCard({
     return (
         <div className={`${styles.container} ${isExpanded ? styles.expanded : ''}`}>
             <div className={styles.header}>
-                <h1>{getDomain(url)}</h1>
+                <h1>{scan && !scan.source.url ? scan.source.name : getDomain(url)}</h1>
                 <img 
                   src="/close.png" 
                   alt="Remove" 
@@ -117,10 +179,10 @@ export default function ResponseCard({
                 </button>
             </div>
 
-            {!htmlResponse && !error && (
+            {!detection && !error && !scan && (
                 <button 
                     className={styles.fetchButton} 
-                    onClick={fetchHtml}
+                    onClick={() => fetchHtml()}
                     disabled={loading}
                 >
                     {loading ? 'Fetching...' : 'Fetch HTML'}
@@ -133,33 +195,150 @@ export default function ResponseCard({
                 </div>
             )}
 
-            {error && !authForm && (
+            {error && (
                 <div className={styles.error}>
-                    <p>Error: {error}</p>
-                    <button onClick={fetchHtml} className={styles.retryButton}>
+                    {error.challenge
+                        ? <p>Blocked by {describeBotChallenge(error.challenge)}</p>
+                        : <p>{errorDetails ? `${errorDetails.title}: ` : 'Error: '}{error.error}</p>}
+                    {errorDetails && (
+                        <p className={styles.errorHelp}>
+                            {errorDetails.explanation} {error.code === 'RATE_LIMITED' && error.retryAfterSeconds
+                                ? `Try again in ${error.retryAfterSeconds}s.`
+                                : errorDetails.action}
+                        </p>
+                    )}
+                    <button onClick={() => fetchHtml({ forceRefresh: true })} className={styles.retryButton}>
                         Retry
                     </button>
+                    {error.attempts && (
+                        <button className={styles.linkButton} onClick={() => setShowTrace(!showTrace)}>
+                            {showTrace ? 'Hide details' : 'Why did this fail?'}
+                        </button>
+                    )}
+                    {showTrace && error.attempts && <FetchTrace attempts={error.attempts} />}
                 </div>
             )}
 
-            {(htmlResponse || authForm) && (
+            {(detection || authForms) && (
                 <div className={styles.response}>
                     <div className={styles.responseInfo}>
-                        <p><span className={authForm?.hasPasswordInput ? styles.authFound : styles.authNotFound}>
-                                {authForm?.hasPasswordInput ? 'Form Detected' : 'No Form Detected'}
+                        <p><span className={hasAuthForms ? styles.authFound : styles.authNotFound}>
+                                {hasAuthForms
+                                    ? `${authForms.length} Form${authForms.length > 1 ? 's' : ''} Detected`
+                                    : 'No Form Detected'}
                             </span>
                         </p>
+                        {authVendor && (
+                            <p title={authVendor.evidence.join('\n')}>
+                                Powered by <strong>{authVendor.vendor}{authVendor.product ? ` ${authVendor.product}` : ''}</strong>
+                                <span className={styles.vendorConfidence}> {authVendor.confidence}%</span>
+                            </p>
+                        )}
+                        {passkeys?.supported && (
+                            <details className={styles.passkeys}>
+                                <summary>Passkeys supported</summary>
+                                <ul>
+                                    {passkeys.evidence.map(item => <li key={item}>{item}</li>)}
+                                </ul>
+                            </details>
+                        )}
                     </div>
-                    <p className={styles.note}><span>{authForm?.hasPasswordInput ? 'Click on show details to see more.' : 'Note: Guardrails or JS may be preventing access.'}</span></p>
+                    {/* Pages that only offer "Continue with Google" or SSO have no form but still have a login */}
+                    {!hasAuthForms && federatedLogins.length > 0 && (
+                        <div className={styles.federated}>
+                            <p>Single sign-on only:</p>
+                            <ul>
+                                {federatedLogins.map(login => (
+                                    <li key={login.provider} title={login.evidence.join('\n')}>
+                                        <strong>{login.provider}</strong>
+                                        {login.protocol !== 'unknown' && ` (${login.protocol.toUpperCase()})`}
+                                        {login.href && <span className={styles.hopMeta}>{login.href}</span>}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    <p className={styles.note}><span>{hasAuthForms ? 'Click on show details to see more.' : 'Note: the form may be built by JavaScript.'}</span></p>
+                    {scan && (
+                        <p className={styles.note}>
+                            <span>
+                                {scan.source.kind === 'har'
+                                    ? `Scanned from the HAR file ${scan.source.name}.`
+                                    : scan.source.kind === 'snippet'
+                                        ? 'Scanned from pasted HTML.'
+                                        : `Scanned from the uploaded file ${scan.source.name}.`}
+                            </span>
+                        </p>
+                    )}
+                    {detection && (
+                        <p className={styles.note}><span>Fetched with the {detection.fetch.profile} profile, decoded as {detection.fetch.charset}.</span></p>
+                    )}
+                    {detection?.fetch.truncated && (
+                        <p className={styles.note}><span>The page was cut off at the size limit; forms further down were not checked.</span></p>
+                    )}
+                    {detection?.fetch.cache.hit && (
+                        <p className={styles.note}>
+                            <span>
+                                {detection.fetch.cache.revalidated
+                                    ? 'Cached copy confirmed current by the site. '
+                                    : `Served from cache (${Math.round(detection.fetch.cache.ageMs / 1000)}s old). `}
+                            </span>
+                            <button className={styles.linkButton} onClick={() => fetchHtml({ forceRefresh: true })} disabled={loading}>
+                                Refresh
+                            </button>
+                        </p>
+                    )}
+
+                    {/* Where the redirects led; a login on another site usually means a third-party IdP */}
+                    {redirectChain.length > 1 && (
+                        <div className={`${styles.redirects} ${isThirdPartyHost ? styles.thirdParty : ''}`}>
+                            <p>
+                                {isThirdPartyHost
+                                    ? <>Redirected to another site: <strong>{finalHost}</strong> (likely a third-party identity provider)</>
+                                    : <>Redirected {redirectChain.length - 1} time{redirectChain.length > 2 ? 's' : ''}</>}
+                            </p>
+                            <ol>
+                                {redirectChain.map((hop, index) => (
+                                    <li key={`${hop.url}-${index}`}>
+                                        <span className={styles.hopStatus}>{hop.status}</span>
+                                        <span className={!isSameSite(getHostname(hop.url), getHostname(url)) ? styles.foreignHop : ''}>{hop.url}</span>
+                                        <span className={styles.hopMeta}>
+                                            {hop.durationMs}ms
+                                            {hop.setCookieNames.length > 0 && ` · sets ${hop.setCookieNames.join(', ')}`}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ol>
+                        </div>
+                    )}
+                    {detection?.discovery?.loginUrl && (
+                        <div className={styles.discovery}>
+                            <p>Login page found at <a href={detection.discovery.loginUrl} target="_blank" rel="noopener noreferrer">{detection.discovery.loginUrl}</a></p>
+                            <ol>
+                                {detection.discovery.path.map((hop, index) => (
+                                    <li key={`${hop.url}-${index}`}>
+                                        {hop.linkText ? <span className={styles.linkText}>&ldquo;{hop.linkText}&rdquo; → </span> : null}
+                                        {hop.url}
+                                    </li>
+                                ))}
+                            </ol>
+                        </div>
+                    )}
+                    {detection?.discovery && !detection.discovery.loginUrl && (
+                        <p className={styles.note}><span>Followed {detection.discovery.pagesFetched} sign-in link(s) without finding a form.</span></p>
+                    )}
                     
-                    {/* Authentication Form Detection */}
-                    {authForm && authForm.hasPasswordInput && (
+                    {/* Authentication Form Detection: one block per detected form */}
+                    {hasAuthForms && authForms.map((authForm, index) => (
                         <Authentication 
+                            key={`${authForm.position}-${authForm.domPath}`}
                             authForm={authForm}
-                            isVisible={isExpanded}
-                            onToggle={onToggle}
+                            label={authForms.length > 1 ? `Form ${index + 1} of ${authForms.length}` : undefined}
+                            federatedLogins={index === federatedFormIndex ? federatedLogins : undefined}
+                            isVisible={isExpanded && expandedFormIndex === index}
+                            onToggle={() => toggleForm(index)}
                         />
-                    )}
+                    ))}
                 </div>
             )}
         </div>
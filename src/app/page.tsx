@@ -3,12 +3,16 @@
 import { useEffect, useState, useRef, useCallback } from "react";
 import validator from "validator";
 import styles from "./page.module.scss";
-import ResponseCard from "./components/ResponseCard";
+import ResponseCard, { ScannedPage } from "./components/ResponseCard";
 import Status from "./components/Status";
 
 export default function Home() {
   const [input, setInput] = useState<string>("");
   const [urls, setUrls] = useState<Array<{id: string, url: string}>>([]);
+  // Scanned uploads are not saved or counted against the URL limit
+  const [scans, setScans] = useState<Array<ScannedPage & {id: string}>>([]);
+  const [skippedUploads, setSkippedUploads] = useState<Array<{name: string, reason: string}>>([]);
+  const [scanning, setScanning] = useState<boolean>(false);
   const [message, setMessage] = useState<Record<string, any>>({});
   const [isHydrated, setIsHydrated] = useState(false);
   const [expandedCardId, setExpandedCardId] = useState<string | null>(null);
@@ -164,6 +168,41 @@ export default function Home() {
     }, 100);
   };
 
+  // Uploaded HTML or HAR files are scanned server-side; HAR files may hold several pages
+  const handleScanUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (!files.length) {
+      return;
+    }
+
+    const body = new FormData();
+    files.forEach(file => body.append('files', file));
+
+    setScanning(true);
+    setSkippedUploads([]);
+    try {
+      const response = await fetch('/api/scan', { method: 'POST', body });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage({text: data.error || "Failed to scan the files.", error: true});
+        return;
+      }
+
+      const scanned = data.documents.map((document: ScannedPage) => ({
+        ...document,
+        id: `scan-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+      }));
+      setScans([...scans, ...scanned]);
+      setSkippedUploads(data.skipped);
+    } catch (err) {
+      setMessage({text: "Network error occurred", error: true});
+    } finally {
+      setScanning(false);
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setInput(value);
@@ -202,6 +241,13 @@ export default function Home() {
     }
   };
 
+  const removeScan = (id: string) => {
+    setScans(scans.filter(item => item.id !== id));
+    if (expandedCardId === id) {
+      setExpandedCardId(null);
+    }
+  };
+
   const handleCardToggle = (cardId: string) => {
     // If clicking the same card, toggle it off
     if (expandedCardId === cardId) {
@@ -213,20 +259,20 @@ export default function Home() {
   };
 
   useEffect(() => {
-    if(urls.length === 0 && !input.trim()) {
+    if(urls.length === 0 && scans.length === 0 && !input.trim()) {
       setMessage({text: "Please add a URL to continue.", error: false});
     } else {
       setMessage({text: "", error: false});
     }
-  }, [urls, input]);
+  }, [urls, scans, input]);
 
   // Check if scroll arrows are needed when URLs change
   useEffect(() => {
-    if (isHydrated && urls.length > 0) {
+    if (isHydrated && (urls.length > 0 || scans.length > 0)) {
       // Use setTimeout to ensure DOM has updated
       setTimeout(checkScrollNeeded, 100);
     }
-  }, [urls, isHydrated, checkScrollNeeded]);
+  }, [urls, scans, isHydrated, checkScrollNeeded]);
 
   // Check scroll on window resize
   useEffect(() => {
@@ -243,7 +289,7 @@ export default function Home() {
       <h1 className={styles.assessmentTitle}>getcovered <i>Challenge Submission</i></h1>
       <Status message={message.text} setMessage={setMessage} error={message.error} />
       <main className={styles.main}>
-        {!urls.length ? <div className={styles.emptyState}><p>No URLs added yet.</p></div> : <></>}
+        {!urls.length && !scans.length ? <div className={styles.emptyState}><p>No URLs added yet.</p></div> : <></>}
         <div className={`${styles.formSection} ${!showInputForm ? styles.collapsed : ''}`}>
           <div className={`${styles.glassForm} ${!showInputForm ? styles.collapsed : ''}`}>
             <form onSubmit={handleSubmit} action="#" method="post">
@@ -289,6 +335,28 @@ export default function Home() {
                 URLs added: {urls.length}/5
               </div>
             )}
+
+            {showInputForm && (
+              <div className={styles.scanUpload}>
+                <label>
+                  {scanning ? 'Scanning...' : 'Or scan saved pages (HTML or HAR):'}
+                  <input
+                    type="file"
+                    accept=".html,.htm,.har"
+                    multiple
+                    onChange={handleScanUpload}
+                    disabled={scanning}
+                  />
+                </label>
+                {skippedUploads.length > 0 && (
+                  <ul>
+                    {skippedUploads.map((skipped, index) => (
+                      <li key={`${skipped.name}-${index}`}>Skipped {skipped.name}: {skipped.reason}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
                 <footer className={styles.formFooter}>
                   <p>some authentication forms may remain undetected due to restricted access.</p>
                 </footer>
@@ -308,7 +376,7 @@ export default function Home() {
               ‹
             </button>
           )}
-          <div className={ urls.length > 0 ? styles.responseCards : ""}>
+          <div className={ urls.length > 0 || scans.length > 0 ? styles.responseCards : ""}>
             {
               urls.map((urlItem) => (
                 <ResponseCard 
@@ -321,6 +389,19 @@ export default function Home() {
                 />
               ))
             }
+            {
+              scans.map((scanItem) => (
+                <ResponseCard
+                  removeUrl={removeScan}
+                  id={scanItem.id}
+                  key={scanItem.id}
+                  url={scanItem.source.url || scanItem.source.name}
+                  isExpanded={expandedCardId === scanItem.id}
+                  onToggle={() => handleCardToggle(scanItem.id)}
+                  scan={scanItem}
+                />
+              ))
+            }
           </div>
           {showScrollArrows && (
             <button 
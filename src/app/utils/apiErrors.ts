@@ -0,0 +1,160 @@
+// Error model shared by the API routes and the UI. Every error body carries a
+// stable `code` so callers can branch on it instead of matching messages.
+
+export type ApiErrorCode =
+  | 'INVALID_REQUEST' // The request body is malformed
+  | 'INVALID_URL' // The URL to fetch is missing or does not parse
+  | 'TARGET_BLOCKED' // The SSRF guard refused the URL or one of its redirects
+  | 'RATE_LIMITED' // This client or the target host is over its rate limit
+  | 'ROBOTS_DISALLOWED' // The site's robots.txt does not allow fetching the URL
+  | 'TIMEOUT'
+  | 'DNS_FAILURE'
+  | 'TLS_ERROR'
+  | 'NETWORK_ERROR' // Connection refused, reset or otherwise failed
+  | 'TOO_MANY_REDIRECTS'
+  | 'BOT_PROTECTION' // The site answered with a bot challenge instead of the page
+  | 'NOT_HTML'
+  | 'TOO_LARGE'
+  | 'HTTP_4XX' // The site answered with a client error status
+  | 'HTTP_5XX' // The site answered with a server error status
+  | 'INTERNAL_ERROR';
+
+export type BotChallengeType = 'js-challenge' | 'captcha' | 'block' | 'browser-check';
+
+// A bot wall, WAF block or captcha page served instead of the requested page
+export interface BotChallenge {
+  vendor: string | null; // Protection vendor, null when the page does not reveal it
+  type: BotChallengeType;
+  evidence: string; // The header or page snippet that gave it away
+}
+
+const BOT_CHALLENGE_LABELS: Record<BotChallengeType, string> = {
+  'js-challenge': 'JavaScript challenge',
+  captcha: 'captcha',
+  block: 'access denied page',
+  'browser-check': 'unsupported browser page',
+};
+
+// Short description such as "Cloudflare (JavaScript challenge)" or "a captcha"
+export function describeBotChallenge(challenge: BotChallenge): string {
+  return challenge.vendor
+    ? `${challenge.vendor} (${BOT_CHALLENGE_LABELS[challenge.type]})`
+    : `${challenge.type === 'block' ? 'an' : 'a'} ${BOT_CHALLENGE_LABELS[challenge.type]}`;
+}
+
+// One try at fetching a page with one fetch profile, returned with `debug: true`
+export interface FetchAttempt {
+  profile: string;
+  requestHeaders: Record<string, string>; // Cookie, authorization and profile-configured values are redacted
+  status: number | null; // Status of the last response, null if none came back
+  responseHeaders: Record<string, string>; // Set-Cookie values are redacted
+  durationMs: number;
+  bytes: number; // Size of the body received
+  failureReason?: string; // Why the next profile was tried, or the request failed
+}
+
+// JSON body of every failed API response
+export interface ApiErrorBody {
+  error: string; // Human-readable message, may change between versions
+  code: ApiErrorCode;
+  status?: number; // Status returned by the target site, if any
+  contentType?: string;
+  retryAfterSeconds?: number;
+  challenge?: BotChallenge; // Set with BOT_PROTECTION
+  redirectChain?: Array<{ url: string; status: number; location: string | null }>;
+  attempts?: FetchAttempt[]; // Only with `debug: true`
+}
+
+export interface ApiErrorDetails {
+  title: string;
+  explanation: string;
+  action: string;
+}
+
+export const API_ERROR_DETAILS: Record<ApiErrorCode, ApiErrorDetails> = {
+  INVALID_REQUEST: {
+    title: 'Invalid request',
+    explanation: 'The request sent to the API was malformed.',
+    action: 'Check the request body against the API documentation.',
+  },
+  INVALID_URL: {
+    title: 'Invalid URL',
+    explanation: 'The URL is missing or could not be parsed.',
+    action: 'Enter a full URL including the protocol, e.g. https://example.com/login.',
+  },
+  TARGET_BLOCKED: {
+    title: 'Target not allowed',
+    explanation: 'The URL, or a page it redirected to, points at a private, internal or blocked address.',
+    action: 'Use a public URL. For internal testing, add the host to FETCH_ALLOWED_HOSTS.',
+  },
+  RATE_LIMITED: {
+    title: 'Rate limited',
+    explanation: 'Too many requests were made recently, either by you or to this site.',
+    action: 'Wait for the limit to reset and try again.',
+  },
+  ROBOTS_DISALLOWED: {
+    title: 'Disallowed by robots.txt',
+    explanation: "The site's robots.txt asks crawlers not to fetch this URL, and robots.txt is being respected.",
+    action: 'Skip this URL, or ask the site owner for permission to scan it.',
+  },
+  TIMEOUT: {
+    title: 'Timed out',
+    explanation: 'The site took too long to respond.',
+    action: 'Try again later; the site may be slow or overloaded.',
+  },
+  DNS_FAILURE: {
+    title: 'Domain not found',
+    explanation: 'The domain name could not be resolved.',
+    action: 'Check the URL for typos and that the domain still exists.',
+  },
+  TLS_ERROR: {
+    title: 'TLS error',
+    explanation: 'A secure connection could not be established, e.g. because of an expired or invalid certificate.',
+    action: 'Check the site in a browser; try the http:// URL only if you trust the network.',
+  },
+  NETWORK_ERROR: {
+    title: 'Connection failed',
+    explanation: 'The connection to the site was refused or dropped.',
+    action: 'Check that the site is up and try again.',
+  },
+  TOO_MANY_REDIRECTS: {
+    title: 'Too many redirects',
+    explanation: 'The site kept redirecting without reaching a page.',
+    action: 'Open the URL in a browser; the site may need cookies to stop redirecting.',
+  },
+  BOT_PROTECTION: {
+    title: 'Blocked by bot protection',
+    explanation: 'The site answered with a bot challenge, captcha or block page instead of the page itself.',
+    action: 'The site only serves the page to real browsers; open it in a browser to inspect the form manually.',
+  },
+  NOT_HTML: {
+    title: 'Not an HTML page',
+    explanation: 'The URL returned something other than HTML, such as JSON, an image or a file.',
+    action: 'Use the URL of the page that shows the login form.',
+  },
+  TOO_LARGE: {
+    title: 'Page too large',
+    explanation: 'The page is bigger than the configured size limit.',
+    action: 'Use a more specific URL, or raise the size limit.',
+  },
+  HTTP_4XX: {
+    title: 'Page not available',
+    explanation: 'The site refused the request or the page does not exist.',
+    action: 'Check the URL; the page may require a different path or be restricted.',
+  },
+  HTTP_5XX: {
+    title: 'Site error',
+    explanation: 'The site returned a server error.',
+    action: 'Try again later.',
+  },
+  INTERNAL_ERROR: {
+    title: 'Unexpected error',
+    explanation: 'Something went wrong while processing the request.',
+    action: 'Try again; if it keeps happening, check the server logs.',
+  },
+};
+
+// Maps a status returned by the target site to its error code
+export function getHttpErrorCode(status: number): ApiErrorCode {
+  return status >= 500 ? 'HTTP_5XX' : 'HTTP_4XX';
+}
@@ -0,0 +1,125 @@
+import * as cheerio from 'cheerio';
+import rules from './authVendors.json';
+
+// Fingerprints the identity provider or auth framework behind a login page
+// ("Auth0 Universal Login", "Okta-hosted", "WordPress"...). The rules live in
+// authVendors.json: each vendor lists signals, and a vendor's confidence is the
+// sum of the weights of the signals that matched, clamped to 0-100.
+
+// Where a signal's pattern is matched (case-insensitive)
+export type AuthVendorSignalType =
+  | 'pageHost' // Host of the page, after redirects
+  | 'formAction' // Host and path of each form's action
+  | 'scriptSrc'
+  | 'linkHref' // Stylesheets and other <link> elements
+  | 'meta' // "name=content" of each <meta>, e.g. "generator=WordPress 6.4"
+  | 'className' // Each class name on any element
+  | 'domId'
+  | 'inputName'
+  | 'inlineScript';
+
+export interface AuthVendorRule {
+  vendor: string;
+  product: string | null; // e.g. "Universal Login" for Auth0
+  signals: Array<{ type: AuthVendorSignalType; pattern: string; weight: number }>;
+}
+
+export interface AuthVendorMatch {
+  vendor: string;
+  product: string | null;
+  confidence: number; // 0-100
+  evidence: string[];
+}
+
+const SIGNAL_LABELS: Record<AuthVendorSignalType, string> = {
+  pageHost: 'Page host',
+  formAction: 'Form posts to',
+  scriptSrc: 'Script',
+  linkHref: 'Linked resource',
+  meta: 'Meta tag',
+  className: 'Class name',
+  domId: 'Element id',
+  inputName: 'Input name',
+  inlineScript: 'Inline script mentions',
+};
+
+const AUTH_VENDOR_RULES = (rules as { vendors: AuthVendorRule[] }).vendors;
+
+// Helper function to collect the values each signal type is matched against
+function collectPageValues(html: string, pageUrl?: string): Record<AuthVendorSignalType, string[]> {
+  const $ = cheerio.load(html) as cheerio.CheerioAPI;
+  const attributes = (selector: string, attribute: string) => $(selector).toArray()
+    .map(element => $(element).attr(attribute) || '')
+    .filter(Boolean);
+
+  const formActions = attributes('form[action]', 'action').map(action => {
+    try {
+      const url = new URL(action, pageUrl);
+      return `${url.host}${url.pathname}`;
+    } catch {
+      return action.split(/[?#]/)[0];
+    }
+  });
+
+  let pageHost: string[] = [];
+  if (pageUrl) {
+    try {
+      pageHost = [new URL(pageUrl).hostname];
+    } catch {
+      pageHost = [];
+    }
+  }
+
+  return {
+    pageHost,
+    formAction: formActions,
+    scriptSrc: attributes('script[src]', 'src'),
+    linkHref: attributes('link[href]', 'href'),
+    meta: $('meta[content]').toArray()
+      .map(element => {
+        const $meta = $(element);
+        const name = $meta.attr('name') || $meta.attr('property') || $meta.attr('http-equiv') || '';
+        return name ? `${name}=${$meta.attr('content')}` : '';
+      })
+      .filter(Boolean),
+    className: Array.from(new Set(attributes('[class]', 'class').flatMap(value => value.split(/\s+/)).filter(Boolean))),
+    domId: attributes('[id]', 'id'),
+    inputName: attributes('input[name]', 'name'),
+    inlineScript: $('script:not([src])').toArray().map(element => $(element).html() || '').filter(Boolean),
+  };
+}
+
+// Returns the vendors whose signals match the page, most confident first
+export function fingerprintAuthVendor(html: string, pageUrl?: string): AuthVendorMatch[] {
+  const values = collectPageValues(html, pageUrl);
+  const matches: AuthVendorMatch[] = [];
+
+  for (const rule of AUTH_VENDOR_RULES) {
+    let score = 0;
+    const evidence: string[] = [];
+
+    for (const signal of rule.signals) {
+      const pattern = new RegExp(signal.pattern, 'i');
+      const matched = values[signal.type]?.find(value => pattern.test(value));
+      if (matched === undefined) {
+        continue;
+      }
+
+      score += signal.weight;
+      // Inline scripts are long; only the matching part is useful as evidence
+      const shown = signal.type === 'inlineScript' ? matched.match(pattern)![0] : matched;
+      evidence.push(`${SIGNAL_LABELS[signal.type]}: ${shown.length > 120 ? `${shown.slice(0, 117)}...` : shown}`);
+    }
+
+    if (evidence.length > 0) {
+      matches.push({
+        vendor: rule.vendor,
+        product: rule.product,
+        confidence: Math.max(0, Math.min(100, score)),
+        evidence,
+      });
+    }
+  }
+
+  return matches.sort((a, b) => b.confidence - a.confidence);
+}
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { findAuthForms, findFederatedLogins, findPasskeySupport } from './htmlParser';
+
+const PAGE_URL = 'https://example.com/account/login';
+
+describe('findAuthForms', () => {
+  it('returns nothing for a page without auth inputs', () => {
+    expect(findAuthForms('<html><body><form><input name="q"><button>Search</button></form></body></html>')).toEqual([]);
+  });
+
+  it('classifies a username and password form as a login', () => {
+    const [form] = findAuthForms(`
+      <form action="/session" method="post">
+        <input type="email" name="email" autocomplete="username">
+        <input type="password" name="password" autocomplete="current-password">
+        <button type="submit">Sign in</button>
+      </form>`, PAGE_URL);
+
+    expect(form.purpose).toBe('login');
+    expect(form.hasPasswordInput).toBe(true);
+    expect(form.passwordInputs).toHaveLength(1);
+    expect(form.signals.map(signal => signal.id)).toContain('inside-form');
+  });
+
+  it('classifies a form with a confirm-password field as a signup', () => {
+    const [form] = findAuthForms(`
+      <form action="/register" method="post">
+        <input type="email" name="email">
+        <input type="password" name="password" autocomplete="new-password">
+        <input type="password" name="password_confirmation" autocomplete="new-password">
+        <button type="submit">Create account</button>
+      </form>`, PAGE_URL);
+
+    expect(form.purpose).toBe('signup');
+  });
+
+  it('reports each form on the page separately, in document order', () => {
+    const forms = findAuthForms(`
+      <form action="/login"><input type="password" name="p"><button>Log in</button></form>
+      <form action="/signup"><input type="password" name="p"><input type="password" name="p2"><button>Sign up</button></form>`, PAGE_URL);
+
+    expect(forms.map(form => form.position)).toEqual([0, 1]);
+    expect(forms.map(form => form.submission?.action)).toEqual(['https://example.com/login', 'https://example.com/signup']);
+  });
+
+  describe('identifier-first forms', () => {
+    it('recognizes a Google-style form despite its "Forgot email?" button', () => {
+      const [form] = findAuthForms(`
+        <h1>Sign in</h1>
+        <form method="post" action="/idp/next">
+          <input type="email" name="identifier" autocomplete="username">
+          <button type="button">Forgot email?</button>
+          <button type="submit">Next</button>
+        </form>`, PAGE_URL);
+
+      expect(form.purpose).toBe('identifier-first');
+    });
+
+    it('recognizes a Microsoft-style <input type="submit" value="Next">', () => {
+      const [form] = findAuthForms(`
+        <div role="heading">Sign in</div>
+        <form method="post" action="/idp/next">
+          <input type="email" name="loginfmt">
+          <input type="submit" value="Next">
+        </form>`, PAGE_URL);
+
+      expect(form.purpose).toBe('identifier-first');
+    });
+
+    it('does not treat a newsletter form with a "Continue" button as a login step', () => {
+      const forms = findAuthForms(`
+        <h2>Get our newsletter</h2>
+        <form method="post" action="/newsletter">
+          <input type="email" name="email">
+          <button type="submit">Continue</button>
+        </form>`, 'https://example.com/blog');
+
+      expect(forms.every(form => form.purpose !== 'identifier-first')).toBe(true);
+    });
+  });
+
+  describe('submission', () => {
+    it('resolves the action against the page URL', () => {
+      const [form] = findAuthForms('<form action="../session" method="POST"><input type="password" name="p"></form>', PAGE_URL);
+
+      expect(form.submission).toMatchObject({ action: 'https://example.com/session', method: 'POST', jsDriven: false });
+    });
+
+    it('posts back to the page itself when there is no action', () => {
+      const [form] = findAuthForms('<form method="post"><input type="password" name="p"></form>', PAGE_URL);
+
+      expect(form.submission?.action).toBe(PAGE_URL);
+      expect(form.submission?.jsDrivenReasons).toContain('No action attribute');
+    });
+
+    it('reports an action that is not a valid URL as null', () => {
+      const [form] = findAuthForms('<form action="http://[bad/login" method="post"><input type="password" name="p"></form>', PAGE_URL);
+
+      expect(form.submission?.action).toBeNull();
+      expect(form.submission?.method).toBe('POST');
+    });
+
+    it('keeps a relative action as written when the page URL is unknown', () => {
+      const [form] = findAuthForms('<form action="/session" method="post"><input type="password" name="p"></form>');
+
+      expect(form.submission?.action).toBe('/session');
+    });
+
+    it('flags hidden fields that look like CSRF tokens', () => {
+      const [form] = findAuthForms(`
+        <form action="/session" method="post">
+          <input type="hidden" name="authenticity_token" value="abc">
+          <input type="hidden" name="return_to" value="/">
+          <input type="password" name="p">
+        </form>`, PAGE_URL);
+
+      expect(form.submission?.hiddenFields).toEqual([
+        { name: 'authenticity_token', likelyCsrf: true },
+        { name: 'return_to', likelyCsrf: false },
+      ]);
+    });
+  });
+});
+
+describe('findFederatedLogins', () => {
+  it('finds a "Continue with Google" link and its OAuth parameters', () => {
+    const [login] = findFederatedLogins(`
+      <a href="https://accounts.google.com/o/oauth2/v2/auth?client_id=abc.apps.googleusercontent.com&scope=openid%20email&response_type=code&redirect_uri=https%3A%2F%2Fexample.com%2Fcb">
+        Continue with Google
+      </a>`, PAGE_URL);
+
+    expect(login.provider).toBe('Google');
+    expect(login.oauth).toMatchObject({
+      clientId: 'abc.apps.googleusercontent.com',
+      scopes: ['openid', 'email'],
+      responseType: 'code',
+      redirectUri: 'https://example.com/cb',
+    });
+  });
+
+  it('ignores pages without login options', () => {
+    expect(findFederatedLogins('<a href="/about">About us</a>', PAGE_URL)).toEqual([]);
+  });
+});
+
+describe('findPasskeySupport', () => {
+  it('counts a passkey sign-in button', () => {
+    const support = findPasskeySupport('<button>Sign in with a passkey</button>');
+
+    expect(support.supported).toBe(true);
+    expect(support.evidence).toEqual(['Button says "Sign in with a passkey"']);
+  });
+
+  it('counts webauthn autocomplete tokens and inline WebAuthn calls', () => {
+    const support = findPasskeySupport(`
+      <input name="username" autocomplete="username webauthn">
+      <script>navigator.credentials.get({ publicKey })</script>`);
+
+    expect(support.evidence).toHaveLength(2);
+  });
+
+  it('matches WebAuthn SDKs by file name only', () => {
+    expect(findPasskeySupport('<script src="/js/simplewebauthn-browser.min.js"></script>').supported).toBe(true);
+    expect(findPasskeySupport('<script src="/js/not-webauthn-related-analytics.js"></script>').supported).toBe(false);
+  });
+
+  it('does not count links that only talk about passkeys', () => {
+    expect(findPasskeySupport('<a href="/help/passkeys">Learn about passkeys</a>').supported).toBe(false);
+  });
+});
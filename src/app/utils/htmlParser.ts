@@ -1,9 +1,78 @@
 import * as cheerio from 'cheerio';
+import type { SecurityFinding } from './securityAudit';
+
+// What a detected form is for, e.g. signing in vs. creating an account
+export type AuthFormPurpose =
+  | 'login'
+  | 'signup'
+  | 'password-reset'
+  | 'password-change'
+  | 'mfa'
+  | 'identifier-first'
+  | 'unknown';
+
+// Human-readable labels for each purpose, used by the UI badges
+export const AUTH_FORM_PURPOSE_LABELS: Record<AuthFormPurpose, string> = {
+  'login': 'Sign In',
+  'signup': 'Registration',
+  'password-reset': 'Password Reset',
+  'password-change': 'Change Password',
+  'mfa': 'MFA / One-Time Code',
+  'identifier-first': 'Identifier First',
+  'unknown': 'Unclassified'
+};
+
+// One piece of evidence that contributed to a form's confidence score
+export interface DetectionSignal {
+  id: string;
+  label: string;
+  weight: number;
+}
+
+// Weight of each detection signal; the confidence is their sum, clamped to 0-100
+export const SIGNAL_WEIGHTS = {
+  passwordInput: 35,
+  oneTimeCodeInput: 30,
+  identifierInput: 15,
+  identifierWithPassword: 20,
+  insideForm: 10,
+  authAutocomplete: 10,
+  authButton: 15,
+  authHeading: 10,
+  authContext: 5,
+  searchOrNewsletter: -25
+};
+
+// How a form submits, as a security reviewer reads it
+export interface FormSubmission {
+  action: string | null; // Absolute when the page URL is known; null when the fields are not in a <form> or the action is not a valid URL
+  method: 'GET' | 'POST' | 'DIALOG' | null;
+  enctype: string | null;
+  hiddenFields: Array<{
+    name: string;
+    likelyCsrf: boolean; // Name looks like an anti-forgery token
+  }>;
+  submitControls: Array<{
+    tag: string; // "button" or "input"
+    type: string;
+    text: string;
+    formAction?: string; // Overrides the form's action for this control
+  }>;
+  jsDriven: boolean; // Submission probably happens in a script rather than by the browser
+  jsDrivenReasons: string[];
+}
 
 export interface AuthForm {
   hasPasswordInput: boolean;
+  purpose: AuthFormPurpose;
+  confidence: number; // 0-100, sum of the signal weights
+  signals: DetectionSignal[];
   formElement: string | null;
+  submission: FormSubmission | null;
+  findings: SecurityFinding[]; // Filled in by auditAuthForms, which needs the page URL and headers
   parentElement: string | null;
+  domPath: string | null; // CSS-like path to the parent element
+  position: number; // Zero-based order of this form among the forms found on the page
   inputCount: number;
   passwordInputs: Array<{
     selector: string;
@@ -11,12 +80,14 @@ export interface AuthForm {
     id?: string;
     placeholder?: string;
     type?: string;
+    autocomplete?: string;
   }>;
   otherInputs: Array<{
     type: string;
     name?: string;
     id?: string;
     placeholder?: string;
+    autocomplete?: string;
   }>;
 }
 
@@ -58,14 +129,72 @@ function hasAuthenticationContext($: cheerio.CheerioAPI, $input: any): boolean {
   return hasStrongAuthText && hasStrongAuthButton;
 }
 
-export function parseHtmlForAuthForms(html: string): AuthForm {
-  const $ = cheerio.load(html);
-  
+// Helper function to check whether an input looks like an email/username field
+function isIdentifierInput($: cheerio.CheerioAPI, el: any): boolean {
+  const $el = $(el);
+  const type = $el.attr('type')?.toLowerCase();
+  const name = $el.attr('name')?.toLowerCase() || '';
+  const id = $el.attr('id')?.toLowerCase() || '';
+  const placeholder = $el.attr('placeholder')?.toLowerCase() || '';
+  const className = $el.attr('class')?.toLowerCase() || '';
+
+  return type === 'email' || type === 'text' && (
+    name.includes('email') || name.includes('username') || name.includes('user') ||
+    id.includes('email') || id.includes('username') || id.includes('user') ||
+    placeholder.includes('email') || placeholder.includes('username') ||
+    className.includes('email') || className.includes('username')
+  );
+}
+
+// Helper function to recognise the first step of an identifier-first or reset flow,
+// which asks only for the account and submits with "Next" or "Send reset link"
+// rather than a sign-in button
+function hasIdentifierStepContext($: cheerio.CheerioAPI, el: any): boolean {
+  const $input = $(el);
+  const autocomplete = ($input.attr('autocomplete') || '').toLowerCase();
+  if (!isIdentifierInput($, el) && !/\b(username|email)\b/.test(autocomplete)) {
+    return false;
+  }
+
+  const $form = $input.closest('form');
+  const { buttons, headings } = getFormTexts($, $form.length > 0 ? $form : findAuthParent($, $input));
+  const buttonText = buttons.join(' ').toLowerCase();
+  const headingText = headings.join(' ').toLowerCase();
+
+  // A reset request: "Send reset link" / "Reset password", or a "Forgot your password?" page
+  if (/reset|recover|send (me )?(a |the )?(login |magic )?link/.test(buttonText) ||
+      (/forgot|reset|recover/.test(headingText) && buttons.length > 0)) {
+    return true;
+  }
+
+  // Identifier-first sign-in only counts inside a real <form>, and "Next" or
+  // "Continue" alone also ends checkout and quote steps, so the page must say
+  // it is a sign-in: a heading or title, a username field, or a login action
+  if ($form.length === 0 || !/\b(next|continue)\b/.test(buttonText)) {
+    return false;
+  }
+  const loginWording = /sign ?in|log ?in|log on/;
+  return /\busername\b/.test(autocomplete) ||
+    loginWording.test(headingText) ||
+    loginWording.test($('title').first().text().toLowerCase()) ||
+    /login|log-in|signin|sign-in|sign_in|session|\bauth|sso|oauth|identifier/.test(($form.attr('action') || '').toLowerCase());
+}
+
+// Helper function to check whether an input asks for a one-time/MFA code
+function isOneTimeCodeInput($: cheerio.CheerioAPI, el: any): boolean {
+  const $el = $(el);
+  const autocomplete = $el.attr('autocomplete')?.toLowerCase() || '';
+  const attributes = [$el.attr('name'), $el.attr('id')].filter(Boolean).join(' ').toLowerCase();
+
+  return autocomplete.includes('one-time-code') ||
+    /\b(otp|totp|mfa|2fa)\b|verification[-_]?code|one[-_]?time[-_]?code/.test(attributes);
+}
+
+// Helper function to collect every input that looks like part of an authentication form
+function collectAuthInputs($: cheerio.CheerioAPI): any[] {
   // FLEXIBLE REQUIREMENT: Look for authentication indicators
   // 1. Direct password inputs (most reliable)
-  const passwordInputs = $('input[type="password"]');
-  
-  // 2. Look for strong authentication context even without password inputs
+  // 2. Strong authentication context even without password inputs
   // (for multipart auth, social login, etc.)
   const allInputs = $('input');
   const potentialAuthInputs = allInputs.filter((_, element) => {
@@ -85,7 +214,12 @@ export function parseHtmlForAuthForms(html: string): AuthForm {
     ].filter(attr => attr && attr !== 'undefined').join(' ').toLowerCase();
     
     // Check for password type first (most reliable)
-    if ($input.attr('type') === 'password') {
+    if ($input.attr('type')?.toLowerCase() === 'password') {
+        return true;
+    }
+
+    // One-time code fields are the whole form on an MFA step
+    if (isOneTimeCodeInput($, element)) {
         return true;
     }
     
@@ -99,45 +233,397 @@ export function parseHtmlForAuthForms(html: string): AuthForm {
     );
     
     // Check for strong authentication context (nearby text, buttons, etc.)
-    const hasStrongContext = hasAuthenticationContext($ as cheerio.CheerioAPI, $input);
+    const hasStrongContext = hasAuthenticationContext($, $input);
     
-    return hasStrongAuthKeyword && hasStrongContext;
+    return (hasStrongAuthKeyword && hasStrongContext) || hasIdentifierStepContext($, element);
   });
-  
-  // REQUIREMENT: Must have either password inputs OR strong auth context with email/username
-  const hasPasswordInputs = passwordInputs.length > 0;
-  const hasStrongAuthContext = potentialAuthInputs.length > 0;
-  
-  if (!hasPasswordInputs && !hasStrongAuthContext) {
-    return {
-      hasPasswordInput: false,
-      formElement: null,
-      parentElement: null,
-      inputCount: 0,
-      passwordInputs: [],
-      otherInputs: []
-    };
+
+  return potentialAuthInputs.toArray();
+}
+
+// Helper function to find the container holding the auth form an input belongs to
+function findAuthParent($: cheerio.CheerioAPI, $input: any): any {
+  // A <form> is the natural boundary between a login form and its neighbours
+  const $form = $input.closest('form');
+  if ($form.length > 0) {
+    return $form;
   }
-  
-  // Combine all authentication-related inputs
-  const authInputs = potentialAuthInputs;
-  
-  const hasPasswordInput = hasPasswordInputs; // True if we found password inputs
 
-  const authForm: AuthForm = {
-    hasPasswordInput: true,
+  // Find the most comprehensive parent that contains email/username AND password inputs
+  let $parent = $input.parent();
+  let bestParent = null;
+  let bestParentScore = 0;
+  let bestParentPasswords = 0;
+  let depth = 0;
+  const maxDepth = 10; // Prevent going too far up the DOM tree
+
+  while ($parent.length > 0 && depth < maxDepth) {
+    // Skip body, html, and other top-level elements
+    const tagName = $parent.prop('tagName')?.toLowerCase();
+    if (tagName === 'body' || tagName === 'html' || tagName === 'head') {
+      break;
+    }
+
+    // Stop before swallowing a separate <form> that holds its own auth inputs
+    const containsAuthForm = $parent.find('form').filter((_: any, form: any) =>
+      $(form).find('input[type="password"], input[type="email"]').length > 0
+    ).length > 0;
+    if (containsAuthForm) {
+      break;
+    }
+
+    const passwordCount = $parent.find('input[type="password"]').length;
+
+    // A container that brings in extra password inputs is holding a second form
+    if (bestParent && bestParentPasswords > 0 && passwordCount > bestParentPasswords) {
+      break;
+    }
+
+    // Check if this parent contains email/username inputs
+    const hasEmailUsername = $parent.find('input').filter((_: any, el: any) => isIdentifierInput($, el)).length > 0;
+
+    // Check if this parent contains password inputs
+    const hasPassword = passwordCount > 0;
+
+    // FLEXIBLE: Consider parents that have either:
+    // 1. Both email/username AND password inputs (traditional auth), OR
+    // 2. Strong email/username context (multipart auth, social login, etc.)
+    const isTraditionalAuth = hasEmailUsername && hasPassword;
+    const isMultipartAuth = hasEmailUsername && !hasPassword; // Strong email/username context without password
+    
+    if (isTraditionalAuth || isMultipartAuth) {
+      // Count total inputs in this parent (excluding hidden inputs)
+      const totalInputsInParent = $parent.find('input').not('input[type="hidden"]').length;
+
+      // Calculate score: prioritize traditional auth, then by input count
+      const score = isTraditionalAuth ? totalInputsInParent + 100 : totalInputsInParent;
+
+      // If this parent has a better score (more comprehensive), use it
+      if (score > bestParentScore || !bestParent) {
+        bestParent = $parent;
+        bestParentScore = score;
+        bestParentPasswords = passwordCount;
+      }
+    }
+    
+    $parent = $parent.parent();
+    depth++;
+  }
+
+  // Use the best parent we found, or fallback to the input's immediate parent
+  return bestParent || $input.parent();
+}
+
+// Helper function to build a readable CSS path (e.g. "body > main > form#login")
+function getDomPath($: cheerio.CheerioAPI, $element: any): string {
+  const segments: string[] = [];
+  let $current = $element;
+
+  while ($current.length > 0) {
+    const tagName = $current.prop('tagName')?.toLowerCase();
+    if (!tagName || tagName === 'html') {
+      break;
+    }
+
+    const id = $current.attr('id');
+    if (id) {
+      segments.unshift(`${tagName}#${id}`);
+      break;
+    }
+
+    const $siblings = $current.parent().children(tagName);
+    segments.unshift($siblings.length > 1
+      ? `${tagName}:nth-of-type(${$siblings.index($current) + 1})`
+      : tagName
+    );
+    $current = $current.parent();
+  }
+
+  return segments.join(' > ');
+}
+
+// Helper function to read a form's button labels and headings.
+// Buttons and headings say what the form does; links ("No account? Sign up") do not.
+// `submitButtons` leaves out helper buttons such as "Forgot email?" (type="button")
+function getFormTexts($: cheerio.CheerioAPI, $parent: any): { buttons: string[]; submitButtons: string[]; headings: string[] } {
+  const clean = (text: string) => text.replace(/\s+/g, ' ').trim();
+  const labels = (selector: string): string[] => $parent.find(selector)
+    .toArray()
+    .map((el: any) => clean($(el).text() || $(el).attr('value') || ''))
+    .filter(Boolean);
+
+  const buttons = labels('button, input[type="submit"], input[type="button"], [role="button"]');
+  const submitButtons = labels('button:not([type]), button[type="submit"], input[type="submit"]');
+
+  let $headings = $parent.find('h1, h2, h3, h4, h5, h6, legend, [role="heading"]');
+  if ($headings.length === 0) {
+    $headings = $parent.parent().find('h1, h2, h3, h4, h5, h6, [role="heading"]').first();
+  }
+  const headings = $headings.toArray()
+    .map((el: any) => clean($(el).text()))
+    .filter(Boolean);
+
+  return { buttons, submitButtons, headings };
+}
+
+// Helper function to label what a detected form is for (sign in, registration, reset, MFA...)
+function classifyAuthForm($: cheerio.CheerioAPI, $parent: any, hasIdentifier: boolean): AuthFormPurpose {
+  if (!$parent || $parent.length === 0) {
+    return 'unknown';
+  }
+
+  const $visibleInputs = $parent.find('input').not('input[type="hidden"]');
+  const $passwords = $parent.find('input[type="password"]');
+  const autocompleteTokens = $visibleInputs.toArray()
+    .map((el: any) => ($(el).attr('autocomplete') || '').toLowerCase());
+
+  const hasNewPassword = autocompleteTokens.some((token: string) => token.includes('new-password'));
+  const hasCurrentPassword = autocompleteTokens.some((token: string) => token.includes('current-password'));
+  const hasOneTimeCode = $visibleInputs.toArray().some((el: any) => isOneTimeCodeInput($, el));
+  const hasConfirmField = $passwords.toArray().some((el: any) =>
+    /confirm|repeat|retype|again|password2|verify/.test(
+      [$(el).attr('name'), $(el).attr('id'), $(el).attr('placeholder'), $(el).attr('aria-label')]
+        .filter(Boolean).join(' ').toLowerCase()
+    )
+  );
+
+  const { buttons, submitButtons, headings } = getFormTexts($, $parent);
+  const purposeText = [...buttons, ...headings].join(' ').toLowerCase();
+  const submitText = [...submitButtons, ...headings].join(' ').toLowerCase();
+
+  const mentions = (patterns: RegExp[], text: string = purposeText) => patterns.some(pattern => pattern.test(text));
+  const mentionsLogin = mentions([/sign ?in/, /log ?in/, /log on/]);
+  const mentionsSignup = mentions([/sign ?up/, /register/, /create (an |your )?account/, /join/, /get started/]);
+  // Sign-in forms often carry a "Forgot email?" button, so only the heading or
+  // the submit button can make a form a reset form
+  const mentionsReset = mentions([/forgot/, /reset/, /recover/, /send (me )?(a |the )?(reset )?link/], submitText);
+  const mentionsChange = mentions([/change (your )?password/, /update (your )?password/]);
+  const mentionsMfa = mentions([/verification code/, /two[- ]factor/, /2-step/, /authenticator/, /one[- ]time/, /security code/]);
+  const mentionsNext = mentions([/next/, /continue/]);
+
+  const passwordCount = $passwords.length;
+
+  // MFA step: a code field and no password
+  if (passwordCount === 0 && (hasOneTimeCode || (mentionsMfa && !hasIdentifier))) {
+    return 'mfa';
+  }
+
+  // Change password: current + new password, or three password fields
+  if ((hasCurrentPassword && hasNewPassword) || passwordCount >= 3 || (mentionsChange && passwordCount >= 2)) {
+    return 'password-change';
+  }
+
+  // Password reset: ask for the account, or set a new password without an identifier
+  if (mentionsReset && (passwordCount === 0 || (hasNewPassword && !hasIdentifier))) {
+    return 'password-reset';
+  }
+
+  if (passwordCount > 0) {
+    if (hasCurrentPassword) {
+      return 'login';
+    }
+    if (hasNewPassword || hasConfirmField || passwordCount >= 2) {
+      return 'signup';
+    }
+    return mentionsSignup && !mentionsLogin ? 'signup' : 'login';
+  }
+
+  if (hasIdentifier) {
+    if (mentionsSignup && !mentionsLogin) {
+      return 'signup';
+    }
+    if (mentionsLogin || mentionsNext) {
+      return 'identifier-first';
+    }
+  }
+
+  return 'unknown';
+}
+
+// Helper function to explain how confident we are that a container is an auth form
+function scoreAuthForm($: cheerio.CheerioAPI, $parent: any, inputs: any[], hasIdentifier: boolean): DetectionSignal[] {
+  const signals: DetectionSignal[] = [];
+  const authPattern = /sign ?in|log ?in|log on|sign ?up|register|create (an |your )?account|continue|next|verify|reset/;
+
+  const hasPassword = $parent.find('input[type="password"]').length > 0;
+  if (hasPassword) {
+    signals.push({ id: 'password-input', label: 'Password input present', weight: SIGNAL_WEIGHTS.passwordInput });
+  }
+
+  if (inputs.some(element => isOneTimeCodeInput($, element))) {
+    signals.push({ id: 'one-time-code-input', label: 'One-time code input present', weight: SIGNAL_WEIGHTS.oneTimeCodeInput });
+  }
+
+  if (hasIdentifier) {
+    signals.push({ id: 'identifier-input', label: 'Email/username input present', weight: SIGNAL_WEIGHTS.identifierInput });
+    if (hasPassword) {
+      signals.push({
+        id: 'identifier-with-password',
+        label: 'Email/username and password in the same container',
+        weight: SIGNAL_WEIGHTS.identifierWithPassword
+      });
+    }
+  }
+
+  if ($parent.is('form')) {
+    signals.push({ id: 'inside-form', label: 'Inside <form>', weight: SIGNAL_WEIGHTS.insideForm });
+  }
+
+  const autocompleteHints = Array.from(new Set<string>(
+    $parent.find('input').toArray()
+      .flatMap((el: any) => ($(el).attr('autocomplete') || '').toLowerCase().split(/\s+/))
+      .filter((token: string) => ['username', 'email', 'current-password', 'new-password', 'one-time-code', 'webauthn'].includes(token))
+  ));
+  if (autocompleteHints.length > 0) {
+    signals.push({
+      id: 'auth-autocomplete',
+      label: `Autocomplete hints: ${autocompleteHints.join(', ')}`,
+      weight: SIGNAL_WEIGHTS.authAutocomplete
+    });
+  }
+
+  const { buttons, headings } = getFormTexts($, $parent);
+  const authButton = buttons.find(text => authPattern.test(text.toLowerCase()));
+  if (authButton) {
+    signals.push({ id: 'auth-button', label: `Submit button says "${authButton}"`, weight: SIGNAL_WEIGHTS.authButton });
+  }
+
+  const authHeading = headings.find(text => authPattern.test(text.toLowerCase()));
+  if (authHeading) {
+    signals.push({ id: 'auth-heading', label: `Heading says "${authHeading}"`, weight: SIGNAL_WEIGHTS.authHeading });
+  }
+
+  if (inputs.some(element => hasAuthenticationContext($, $(element)))) {
+    signals.push({
+      id: 'auth-context',
+      label: 'Nearby text and buttons mention signing in or registering',
+      weight: SIGNAL_WEIGHTS.authContext
+    });
+  }
+
+  const looksLikeSearch = $parent.find('input').toArray().some((el: any) => {
+    const attributes = [$(el).attr('type'), $(el).attr('name'), $(el).attr('id'), $(el).attr('placeholder')]
+      .filter(Boolean).join(' ').toLowerCase();
+    return /search|newsletter|subscribe/.test(attributes);
+  });
+  if (looksLikeSearch && !hasPassword) {
+    signals.push({
+      id: 'search-or-newsletter',
+      label: 'Looks like a search or newsletter field',
+      weight: SIGNAL_WEIGHTS.searchOrNewsletter
+    });
+  }
+
+  return signals;
+}
+
+function createEmptyAuthForm(): AuthForm {
+  return {
+    hasPasswordInput: false,
+    purpose: 'unknown',
+    confidence: 0,
+    signals: [],
     formElement: null,
+    submission: null,
+    findings: [],
     parentElement: null,
+    domPath: null,
+    position: -1,
     inputCount: 0,
     passwordInputs: [],
     otherInputs: []
   };
+}
+
+const CSRF_FIELD_NAME = /csrf|xsrf|authenticity_token|requestverificationtoken|anti[-_]?forgery|^_token$|nonce/i;
+
+// Helper function to read how a form (or a form-like container) submits
+function getFormSubmission($: cheerio.CheerioAPI, $parent: any, baseUrl?: string): FormSubmission {
+  const isForm = $parent.is('form');
+  const jsDrivenReasons: string[] = [];
+  const clean = (text: string) => text.replace(/\s+/g, ' ').trim();
+  // Without the page URL a relative action is kept as written
+  const resolve = (value: string) => {
+    try {
+      return new URL(value, baseUrl).toString();
+    } catch {
+      return baseUrl ? null : value;
+    }
+  };
+
+  let action: string | null = null;
+  let method: FormSubmission['method'] = null;
+  let enctype: string | null = null;
+
+  if (isForm) {
+    const rawAction = ($parent.attr('action') || '').trim();
+    // A form without an action posts back to the page itself
+    action = rawAction ? resolve(rawAction) : (baseUrl || null);
+    const rawMethod = ($parent.attr('method') || 'get').toUpperCase();
+    method = rawMethod === 'POST' || rawMethod === 'DIALOG' ? rawMethod : 'GET';
+    enctype = method === 'POST' ? ($parent.attr('enctype') || 'application/x-www-form-urlencoded').toLowerCase() : null;
+
+    if (!rawAction || rawAction === '#') {
+      jsDrivenReasons.push('No action attribute');
+    } else if (/^javascript:/i.test(rawAction)) {
+      jsDrivenReasons.push('Action is a javascript: URL');
+    }
+    if ($parent.attr('onsubmit')) {
+      jsDrivenReasons.push('Has an onsubmit handler');
+    }
+  } else {
+    jsDrivenReasons.push('Inputs are not inside a <form>');
+  }
+
+  const hiddenFields = $parent.find('input[type="hidden"][name]').toArray().map((element: any) => {
+    const name = $(element).attr('name') || '';
+    return { name, likelyCsrf: CSRF_FIELD_NAME.test(name) };
+  });
+
+  const submitControls: FormSubmission['submitControls'] = $parent
+    .find('button, input[type="submit"], input[type="image"], input[type="button"]')
+    .toArray()
+    .map((element: any) => {
+      const $control = $(element);
+      const tag = element.tagName.toLowerCase();
+      const type = ($control.attr('type') || (tag === 'button' ? 'submit' : 'text')).toLowerCase();
+      const rawFormAction = $control.attr('formaction');
+      const formAction = rawFormAction ? resolve(rawFormAction) : null;
+      return {
+        tag,
+        type,
+        text: clean($control.text() || $control.attr('value') || $control.attr('aria-label') || $control.attr('alt') || ''),
+        ...(formAction ? { formAction } : {})
+      };
+    });
+
+  const submits = submitControls.filter(control => control.type === 'submit' || control.type === 'image');
+  if (submits.length === 0 && submitControls.some(control => control.type === 'button')) {
+    jsDrivenReasons.push('Buttons are type="button", which do not submit the form');
+  }
+  if ($parent.find('button[onclick], input[type="submit"][onclick]').length > 0) {
+    jsDrivenReasons.push('A button has an onclick handler');
+  }
+
+  return {
+    action,
+    method,
+    enctype,
+    hiddenFields,
+    submitControls,
+    jsDriven: jsDrivenReasons.length > 0,
+    jsDrivenReasons
+  };
+}
+
+// Helper function to turn one group of auth inputs into an AuthForm
+function buildAuthForm($: cheerio.CheerioAPI, $parent: any, inputs: any[], baseUrl?: string): AuthForm | null {
+  const authForm = createEmptyAuthForm();
 
   // Separate password inputs from other authentication inputs
   const processedInputs = new Set<string>(); // Track processed inputs to avoid duplicates
-  const allAuthInputs: any[] = []; // Store all auth inputs for processing
   
-  authInputs.each((index, element) => {
+  inputs.forEach((element, index) => {
     const $authInput = $(element);
     
     // Create a unique identifier for this input
@@ -149,135 +635,61 @@ export function parseHtmlForAuthForms(html: string): AuthForm {
       return;
     }
     processedInputs.add(inputSelector);
-    
-    // Store input details
-    allAuthInputs.push({
-      element: $authInput,
-      selector: $authInput.prop('outerHTML') || '',
-      name: $authInput.attr('name') || undefined,
-      id: $authInput.attr('id') || undefined,
-      placeholder: $authInput.attr('placeholder') || undefined,
-      type: $authInput.attr('type') || undefined
-    });
-  });
-  
-  // Now properly categorize: only actual password inputs go to passwordInputs
-  allAuthInputs.forEach(input => {
-    const $input = input.element;
-    const inputType = $input.attr('type');
+
+    const name = $authInput.attr('name') || undefined;
+    const id = $authInput.attr('id') || undefined;
+    const placeholder = $authInput.attr('placeholder') || undefined;
+    const type = $authInput.attr('type')?.toLowerCase() || undefined;
+    const autocomplete = $authInput.attr('autocomplete') || undefined;
     
     // Only add to passwordInputs if it's actually a password input
-    if (inputType === 'password') {
+    if (type === 'password') {
       authForm.passwordInputs.push({
-        selector: input.selector,
-        name: input.name,
-        id: input.id,
-        placeholder: input.placeholder,
-        type: input.type
+        selector: $authInput.prop('outerHTML') || '',
+        name,
+        id,
+        placeholder,
+        type,
+        autocomplete
       });
     } else {
       // All other authentication-related inputs go to otherInputs
       authForm.otherInputs.push({
-        type: input.id || input.type || 'text',
-        name: input.name,
-        id: input.id,
-        placeholder: input.placeholder
+        type: id || type || 'text',
+        name,
+        id,
+        placeholder,
+        autocomplete
       });
     }
   });
 
-  // Find the most comprehensive parent that contains email/username AND password inputs
-  if (allAuthInputs.length > 0) {
-    const $firstAuthInput = allAuthInputs[0].element;
-    let $parent = $firstAuthInput.parent();
-    let bestParent = null;
-    let bestParentScore = 0;
-    let depth = 0;
-    const maxDepth = 10; // Prevent going too far up the DOM tree
-
-    while ($parent.length > 0 && depth < maxDepth) {
-      // Skip body, html, and other top-level elements
-      const tagName = $parent.prop('tagName')?.toLowerCase();
-      if (tagName === 'body' || tagName === 'html' || tagName === 'head') {
-        break;
-      }
-
-      // Check if this parent contains email/username inputs
-      const hasEmailUsername = $parent.find('input').filter((_: any, el: any) => {
-        const $el = $(el);
-        const type = $el.attr('type')?.toLowerCase();
-        const name = $el.attr('name')?.toLowerCase() || '';
-        const id = $el.attr('id')?.toLowerCase() || '';
-        const placeholder = $el.attr('placeholder')?.toLowerCase() || '';
-        const className = $el.attr('class')?.toLowerCase() || '';
-        
-        return type === 'email' || type === 'text' && (
-          name.includes('email') || name.includes('username') || name.includes('user') ||
-          id.includes('email') || id.includes('username') || id.includes('user') ||
-          placeholder.includes('email') || placeholder.includes('username') ||
-          className.includes('email') || className.includes('username')
-        );
-      }).length > 0;
-
-      // Check if this parent contains password inputs
-      const hasPassword = $parent.find('input[type="password"]').length > 0;
-
-      // FLEXIBLE: Consider parents that have either:
-      // 1. Both email/username AND password inputs (traditional auth), OR
-      // 2. Strong email/username context (multipart auth, social login, etc.)
-      const isTraditionalAuth = hasEmailUsername && hasPassword;
-      const isMultipartAuth = hasEmailUsername && !hasPassword; // Strong email/username context without password
-      
-      if (isTraditionalAuth || isMultipartAuth) {
-        // Count total inputs in this parent (excluding hidden inputs)
-        const totalInputsInParent = $parent.find('input').not('input[type="hidden"]').length;
-
-        // Calculate score: prioritize traditional auth, then by input count
-        const score = isTraditionalAuth ? totalInputsInParent + 100 : totalInputsInParent;
-
-        // If this parent has a better score (more comprehensive), use it
-        if (score > bestParentScore || !bestParent) {
-          bestParent = $parent;
-          bestParentScore = score;
-        }
-      }
-      
-      $parent = $parent.parent();
-      depth++;
-    }
-
-    // Use the best parent we found, or fallback to the first auth input's immediate parent
-    const $finalParent = bestParent || allAuthInputs[0].element.parent();
+  if ($parent && $parent.length > 0) {
+    authForm.parentElement = $parent.prop('outerHTML') || null;
+    authForm.domPath = getDomPath($, $parent);
     
-    if ($finalParent && $finalParent.length > 0) {
-      authForm.parentElement = $finalParent.prop('outerHTML') || null;
-      
-      // Count all inputs in this parent (excluding hidden inputs)
-      const allInputs = $finalParent.find('input').not('input[type="hidden"]');
-      authForm.inputCount = allInputs.length;
-      
-      // Check if this parent is a form element
-      if ($finalParent.is('form')) {
-        authForm.formElement = $finalParent.prop('outerHTML') || null;
-      }
+    // Count all inputs in this parent (excluding hidden inputs)
+    authForm.inputCount = $parent.find('input').not('input[type="hidden"]').length;
+    
+    // Check if this parent is a form element
+    if ($parent.is('form')) {
+      authForm.formElement = $parent.prop('outerHTML') || null;
     }
+    authForm.submission = getFormSubmission($, $parent, baseUrl);
   }
 
   // Final deduplication step to ensure no duplicates remain
-  const uniquePasswordInputs = authForm.passwordInputs.filter((input, index, self) => 
+  authForm.passwordInputs = authForm.passwordInputs.filter((input, index, self) => 
     index === self.findIndex(i => 
       i.id === input.id && i.name === input.name && i.type === input.type
     )
   );
   
-  const uniqueOtherInputs = authForm.otherInputs.filter((input, index, self) => 
+  authForm.otherInputs = authForm.otherInputs.filter((input, index, self) => 
     index === self.findIndex(i => 
       i.id === input.id && i.name === input.name && i.type === input.type
     )
   );
-  
-  authForm.passwordInputs = uniquePasswordInputs;
-  authForm.otherInputs = uniqueOtherInputs;
 
   // FINAL VALIDATION: Ensure we have a legitimate authentication form
   // For multipart auth: Must have either password inputs OR strong email/username context
@@ -292,25 +704,421 @@ export function parseHtmlForAuthForms(html: string): AuthForm {
            name.includes('email') || name.includes('username') || name.includes('user') ||
            id.includes('email') || id.includes('username') || id.includes('user') ||
            placeholder.includes('email') || placeholder.includes('username');
-  });
+  }) || inputs.some(element => isIdentifierInput($, element) ||
+    /\b(username|email)\b/.test(($(element).attr('autocomplete') || '').toLowerCase()));
+
+  const finalHasOneTimeCodeInputs = inputs.some(element => isOneTimeCodeInput($, element));
 
   // FLEXIBLE VALIDATION: Accept if we have either:
   // 1. Password inputs (traditional auth), OR
-  // 2. Strong email/username context (multipart auth, social login, etc.)
-  if (!finalHasPasswordInputs && !finalHasEmailUsernameInputs) {
-    return {
-      hasPasswordInput: false,
-      formElement: null,
-      parentElement: null,
-      inputCount: 0,
-      passwordInputs: [],
-      otherInputs: []
-    };
+  // 2. Strong email/username context (multipart auth, social login, etc.), OR
+  // 3. A one-time code field (MFA step)
+  if (!finalHasPasswordInputs && !finalHasEmailUsernameInputs && !finalHasOneTimeCodeInputs) {
+    return null;
   }
 
+  authForm.hasPasswordInput = finalHasPasswordInputs;
+  authForm.purpose = classifyAuthForm($, $parent, finalHasEmailUsernameInputs);
+  authForm.signals = scoreAuthForm($, $parent, inputs, finalHasEmailUsernameInputs);
+  authForm.confidence = Math.max(0, Math.min(100,
+    authForm.signals.reduce((total, signal) => total + signal.weight, 0)
+  ));
+
   return authForm;
 }
 
+// Returns every distinct authentication form on the page, in document order.
+// Form actions are resolved against `baseUrl` when it is given
+export function findAuthForms(html: string, baseUrl?: string): AuthForm[] {
+  const $ = cheerio.load(html) as cheerio.CheerioAPI;
+  const authInputs = collectAuthInputs($);
+
+  if (authInputs.length === 0) {
+    return [];
+  }
+
+  // Group each auth input under the container of the form it belongs to
+  const groups: Array<{ $parent: any; inputs: any[] }> = [];
+  authInputs.forEach(element => {
+    const $parent = findAuthParent($, $(element));
+    const group = groups.find(g => g.$parent.get(0) === $parent.get(0));
+
+    if (group) {
+      group.inputs.push(element);
+    } else {
+      groups.push({ $parent, inputs: [element] });
+    }
+  });
+
+  // Fold groups whose container sits inside another group's container
+  const outerGroups = groups.filter(group => !groups.some(other =>
+    other !== group && cheerio.contains(other.$parent.get(0), group.$parent.get(0))
+  ));
+  groups.forEach(group => {
+    if (outerGroups.includes(group)) {
+      return;
+    }
+    const outer = outerGroups.find(other => cheerio.contains(other.$parent.get(0), group.$parent.get(0)));
+    outer?.inputs.push(...group.inputs);
+  });
+
+  // Order candidates as they appear in the document
+  const documentOrder = $('*').toArray();
+  outerGroups.sort((a, b) =>
+    documentOrder.indexOf(a.$parent.get(0)) - documentOrder.indexOf(b.$parent.get(0))
+  );
+
+  return outerGroups
+    .map(group => buildAuthForm($, group.$parent, group.inputs, baseUrl))
+    .filter((authForm): authForm is AuthForm => authForm !== null)
+    .map((authForm, index) => ({ ...authForm, position: index }));
+}
+
+// Returns the first authentication form on the page, kept for callers that
+// only need a single result
+export function parseHtmlForAuthForms(html: string): AuthForm {
+  return findAuthForms(html)[0] || createEmptyAuthForm();
+}
+
+// OAuth/OIDC parameters read from a federated login link
+export interface OAuthParameters {
+  authorizeEndpoint: string | null; // Unknown when only the SDK's client id was found
+  clientId: string | null;
+  scopes: string[];
+  redirectUri: string | null;
+  responseType: string | null;
+}
+
+// A "Continue with Google" / "Sign in with SSO" style login option
+export interface FederatedLogin {
+  provider: string; // e.g. "Google", or "SSO" when the identity provider is not named
+  protocol: 'oauth' | 'oidc' | 'saml' | 'unknown';
+  label: string | null; // Button or link text
+  href: string | null; // Resolved against the page URL when it is known
+  evidence: string[]; // What identified the provider
+  oauth: OAuthParameters | null;
+}
+
+interface FederatedProviderRule {
+  provider: string;
+  keyword: RegExp; // Provider name in button text, class names, icon file names or link paths
+  endpoint?: RegExp; // Host and path of its authorization endpoint
+  sdk?: RegExp; // Script that renders its login button or prompt
+  clientId?: { selector: string; attribute: string }; // Where its SDK reads the client id from
+}
+
+const FEDERATED_PROVIDERS: FederatedProviderRule[] = [
+  {
+    provider: 'Google',
+    keyword: /google/,
+    endpoint: /^accounts\.google\.com\/(o\/oauth2|signin\/oauth)/,
+    sdk: /accounts\.google\.com\/gsi\/client/,
+    clientId: { selector: '#g_id_onload', attribute: 'data-client_id' }
+  },
+  {
+    provider: 'Apple',
+    keyword: /\bapple\b|appleid/,
+    endpoint: /^appleid\.apple\.com\/auth\/authorize/,
+    sdk: /appleid\.cdn-apple\.com\/appleauth/,
+    clientId: { selector: 'meta[name="appleid-signin-client-id"]', attribute: 'content' }
+  },
+  {
+    provider: 'Microsoft',
+    keyword: /microsoft|azure ad|entra|office ?365/,
+    endpoint: /^login\.(microsoftonline\.com|live\.com|windows\.net)\//,
+    sdk: /msal(-browser)?(\.min)?\.js/
+  },
+  { provider: 'Facebook', keyword: /facebook/, endpoint: /^(www\.|m\.)?facebook\.com\/(v[\d.]+\/)?dialog\/oauth/ },
+  { provider: 'GitHub', keyword: /github/, endpoint: /^github\.com\/login\/oauth/ },
+  { provider: 'GitLab', keyword: /gitlab/, endpoint: /^gitlab\.com\/oauth\/authorize/ },
+  { provider: 'LinkedIn', keyword: /linkedin/, endpoint: /^(www\.)?linkedin\.com\/oauth/ },
+  { provider: 'X (Twitter)', keyword: /twitter|with x\b/, endpoint: /^(api\.)?(twitter|x)\.com\/(i\/)?oauth/ },
+  { provider: 'Amazon', keyword: /amazon/, endpoint: /^(www\.)?amazon\.com\/ap\/oa/, sdk: /loginwithamazon/ },
+  { provider: 'Slack', keyword: /slack/, endpoint: /^slack\.com\/(oauth|openid)/ },
+  { provider: 'Discord', keyword: /discord/, endpoint: /^discord\.com\/(api\/)?oauth2/ },
+  { provider: 'Okta', keyword: /okta/, endpoint: /\.okta(preview)?\.com\/oauth2/, sdk: /okta-signin-widget|okta-auth-js/ },
+  { provider: 'Auth0', keyword: /auth0/, endpoint: /\.auth0\.com\/(authorize|samlp)/, sdk: /cdn\.auth0\.com\/js\/lock|auth0(-spa)?-js/ }
+];
+
+// Button or link text that offers signing in through another account
+const FEDERATED_INTENT = /(sign|log) ?(in|on|up) (with|using|via|through)|continue (with|using)|login (with|using|via)|connect (with|using)|use (your )?[\w ]{0,30} account|\bsso\b|single sign[- ]on/;
+const GENERIC_SSO_TEXT = /\bsso\b|single sign[- ]on|saml|enterprise (login|sign[- ]?in)|company (account|login)/;
+const GENERIC_SSO_PATH = /\/(saml2?|sso|oidc)(\/|$)/;
+const AUTH_PATH_PREFIX = /\/(auth|oauth2?|login|signin|connect|sso|social|accounts?)\//;
+
+// Helper function to read OAuth/OIDC parameters from an authorization URL
+function extractOAuthParameters(url: URL): OAuthParameters | null {
+  const params = url.searchParams;
+  if (!params.has('client_id') && !params.has('response_type')) {
+    return null;
+  }
+
+  return {
+    authorizeEndpoint: `${url.origin}${url.pathname}`,
+    clientId: params.get('client_id'),
+    scopes: (params.get('scope') || '').split(/[\s,+]+/).filter(Boolean),
+    redirectUri: params.get('redirect_uri'),
+    responseType: params.get('response_type')
+  };
+}
+
+// Helper function to tell which protocol a federated login link uses
+function getFederatedProtocol(url: URL | null, path: string, text: string, oauth: OAuthParameters | null): FederatedLogin['protocol'] {
+  if (url?.searchParams.has('SAMLRequest') || /saml/.test(path) || /\bsaml\b/.test(text)) {
+    return 'saml';
+  }
+  if (oauth?.scopes.includes('openid') || /openid|oidc/.test(path)) {
+    return 'oidc';
+  }
+  if (oauth || /oauth|authorize/.test(path)) {
+    return 'oauth';
+  }
+  return 'unknown';
+}
+
+// Returns the federated login options on the page (social logins, "Sign in
+// with SSO", SAML/OIDC redirects), one entry per provider
+export function findFederatedLogins(html: string, baseUrl?: string): FederatedLogin[] {
+  const $ = cheerio.load(html) as cheerio.CheerioAPI;
+  const logins = new Map<string, FederatedLogin>();
+  const clean = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+  const addLogin = (login: FederatedLogin) => {
+    const existing = logins.get(login.provider);
+    if (!existing) {
+      logins.set(login.provider, login);
+      return;
+    }
+    existing.evidence = Array.from(new Set([...existing.evidence, ...login.evidence]));
+    existing.label = existing.label || login.label;
+    existing.href = existing.href || login.href;
+    existing.oauth = existing.oauth || login.oauth;
+    if (existing.protocol === 'unknown') {
+      existing.protocol = login.protocol;
+    }
+  };
+
+  $('a[href], button, input[type="submit"], input[type="button"], [role="button"]').each((_, element) => {
+    const $element = $(element);
+    const label = clean($element.text() || $element.attr('value') || $element.attr('aria-label') || $element.attr('title') || '');
+    const text = label.toLowerCase();
+
+    // Buttons submit to their form's action; only a form without its own fields is a login redirect
+    let rawHref = $element.attr('href') || $element.attr('formaction') || null;
+    const $form = $element.closest('form');
+    if (!rawHref && $form.length > 0 && $form.find('input').not('input[type="hidden"], input[type="submit"], input[type="button"]').length === 0) {
+      rawHref = $form.attr('action') || null;
+    }
+    if (rawHref && (rawHref.startsWith('#') || /^(javascript|mailto|tel):/i.test(rawHref))) {
+      rawHref = null;
+    }
+
+    let url: URL | null = null;
+    if (rawHref) {
+      try {
+        url = new URL(rawHref, baseUrl);
+      } catch {
+        url = null;
+      }
+    }
+
+    // Relative links stay as written when the page URL is unknown
+    const href = url ? url.toString() : rawHref;
+    const path = url ? url.pathname.toLowerCase() : (rawHref || '').split(/[?#]/)[0].toLowerCase();
+    if (/log ?out|sign ?out|share|sharer/.test(`${text} ${path}`)) {
+      return;
+    }
+
+    // Icons and class names often name the provider when the text does not
+    const iconHints = [
+      $element.attr('class'), $element.attr('id'), $element.attr('data-provider'), $element.attr('data-testid'),
+      ...$element.find('img, svg, i, span').toArray().flatMap((child: any) => [
+        $(child).attr('alt'), $(child).attr('src'), $(child).attr('class'), $(child).attr('aria-label'), $(child).find('title').text()
+      ])
+    ].filter(Boolean).join(' ').toLowerCase();
+
+    const hasIntent = FEDERATED_INTENT.test(text);
+    const hostAndPath = url ? `${url.host}${url.pathname}`.toLowerCase() : '';
+
+    for (const rule of FEDERATED_PROVIDERS) {
+      const evidence: string[] = [];
+      if (rule.endpoint && rule.endpoint.test(hostAndPath)) {
+        evidence.push(`Links to its authorization endpoint (${url!.host})`);
+      } else if (AUTH_PATH_PREFIX.test(path) && rule.keyword.test(path)) {
+        evidence.push(`Links to ${path}`);
+      }
+      if (hasIntent && rule.keyword.test(text)) {
+        evidence.push(`Button says "${label}"`);
+      } else if ((hasIntent || evidence.length > 0) && rule.keyword.test(iconHints)) {
+        evidence.push(`Icon or class names mention ${rule.provider}`);
+      }
+
+      if (evidence.length > 0 && (hasIntent || evidence.some(item => item.startsWith('Links')))) {
+        const oauth = url ? extractOAuthParameters(url) : null;
+        addLogin({
+          provider: rule.provider,
+          protocol: getFederatedProtocol(url, path, text, oauth),
+          label: label || null,
+          href,
+          evidence,
+          oauth
+        });
+        return;
+      }
+    }
+
+    // Enterprise SSO buttons rarely name the identity provider
+    if (GENERIC_SSO_TEXT.test(text) || (url && GENERIC_SSO_PATH.test(path) && hasIntent)) {
+      const oauth = url ? extractOAuthParameters(url) : null;
+      addLogin({
+        provider: 'SSO',
+        protocol: getFederatedProtocol(url, path, text, oauth),
+        label: label || null,
+        href,
+        evidence: [GENERIC_SSO_TEXT.test(text) ? `Button says "${label}"` : `Links to ${path}`],
+        oauth
+      });
+    }
+  });
+
+  // Login SDKs render their buttons or prompts with JavaScript, so the script is the only trace
+  $('script[src]').each((_, element) => {
+    const src = $(element).attr('src') || '';
+    const rule = FEDERATED_PROVIDERS.find(candidate => candidate.sdk?.test(src));
+    if (!rule) {
+      return;
+    }
+
+    const clientId = rule.clientId ? $(rule.clientId.selector).first().attr(rule.clientId.attribute) || null : null;
+    addLogin({
+      provider: rule.provider,
+      protocol: 'unknown',
+      label: null,
+      href: null,
+      evidence: [`Loads its sign-in SDK (${src})`],
+      oauth: null
+    });
+    const login = logins.get(rule.provider)!;
+    if (clientId && !login.oauth) {
+      login.oauth = { authorizeEndpoint: null, clientId, scopes: [], redirectUri: null, responseType: null };
+    }
+  });
+
+  return Array.from(logins.values());
+}
+
+// Whether the page offers passkey (WebAuthn) sign-in, and why we think so
+export interface PasskeySupport {
+  supported: boolean;
+  evidence: string[];
+}
+
+const WEBAUTHN_API = /navigator\.credentials\.(get|create)|PublicKeyCredential/;
+// Only a sign-in action counts: "Learn about passkeys" or a settings link does not
+const PASSKEY_TEXT = /\b(sign ?in|log ?in|continue)\s+(with|using)\s+(a |an |your )?(pass ?key|security key)s?\b/;
+// Known WebAuthn SDKs, matched on the package or file name at the start of a path segment
+const WEBAUTHN_LIBRARIES = /(^|\/)(@?simplewebauthn|webauthn-json|@teamhanko|hanko-elements|@passageidentity|passage-elements|@corbado|webauthn(\.min)?\.js)/;
+
+// Returns the page's WebAuthn signals: `autocomplete="webauthn"` inputs,
+// passkey buttons, and scripts that call the WebAuthn API. Linked scripts are
+// judged by their URL only, since their source is not downloaded.
+export function findPasskeySupport(html: string): PasskeySupport {
+  const $ = cheerio.load(html) as cheerio.CheerioAPI;
+  const evidence: string[] = [];
+  const clean = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+  $('input[autocomplete]').each((_, element) => {
+    const $input = $(element);
+    const autocomplete = ($input.attr('autocomplete') || '').toLowerCase();
+    if (autocomplete.split(/\s+/).includes('webauthn')) {
+      evidence.push(`Input "${$input.attr('name') || $input.attr('id') || $input.attr('type') || 'input'}" has autocomplete="${autocomplete}"`);
+    }
+  });
+
+  $('button, a, input[type="submit"], input[type="button"], [role="button"]').each((_, element) => {
+    const $element = $(element);
+    const label = clean($element.text() || $element.attr('value') || $element.attr('aria-label') || '');
+    if (PASSKEY_TEXT.test(label.toLowerCase())) {
+      evidence.push(`Button says "${label}"`);
+    }
+  });
+
+  $('script:not([src])').each((_, element) => {
+    const match = ($(element).html() || '').match(WEBAUTHN_API);
+    if (match) {
+      evidence.push(`Inline script uses ${match[0]}`);
+    }
+  });
+
+  $('script[src]').each((_, element) => {
+    const src = $(element).attr('src') || '';
+    if (WEBAUTHN_LIBRARIES.test(src.toLowerCase())) {
+      evidence.push(`Loads ${src}`);
+    }
+  });
+
+  const unique = Array.from(new Set(evidence));
+  return { supported: unique.length > 0, evidence: unique };
+}
+
+// A link that probably leads to a login page
+export interface AuthLink {
+  url: string;
+  text: string;
+  score: number; // Higher is more likely to lead to the login form
+}
+
+// Returns links whose text or href suggests authentication, best first
+export function findAuthLinks(html: string, baseUrl: string): AuthLink[] {
+  const $ = cheerio.load(html) as cheerio.CheerioAPI;
+  const links = new Map<string, AuthLink>();
+
+  $('a[href]').each((_, element) => {
+    const $link = $(element);
+    const href = $link.attr('href') || '';
+    const text = ($link.text() || $link.attr('aria-label') || $link.attr('title') || '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    if (/^(mailto|tel|javascript):/i.test(href) || href.startsWith('#')) {
+      return;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(href, baseUrl);
+    } catch {
+      return;
+    }
+    url.hash = '';
+
+    const lowerText = text.toLowerCase();
+    const path = `${url.pathname}${url.search}`.toLowerCase();
+
+    // Never follow links that end a session
+    if (/log ?out|sign ?out|log-out|sign-out/.test(`${lowerText} ${path}`)) {
+      return;
+    }
+
+    let score = 0;
+    if (/sign ?in|log ?in|log on|sign on/.test(lowerText)) score += 3;
+    if (/login|log-in|signin|sign-in|sign_in|\/auth\b|\/sso\b|\/session/.test(path)) score += 2;
+    if (/\baccount\b|my account|member/.test(lowerText) || /\/account|\/my-?account|\/profile/.test(path)) score += 1;
+
+    if (score === 0) {
+      return;
+    }
+
+    const key = url.toString();
+    const existing = links.get(key);
+    if (!existing || existing.score < score) {
+      links.set(key, { url: key, text, score });
+    }
+  });
+
+  return Array.from(links.values()).sort((a, b) => b.score - a.score);
+}
+
 export function extractFormContext(html: string, authForm: AuthForm): string {
   if (!authForm.parentElement) {
     return '';
@@ -326,11 +1134,13 @@ export function extractFormContext(html: string, authForm: AuthForm): string {
 }
 
 export function getFormSummary(authForm: AuthForm): string {
-  if (!authForm.hasPasswordInput) {
+  if (!authForm.parentElement) {
     return 'No authentication forms detected';
   }
 
   const summary = [
+    `Purpose: ${AUTH_FORM_PURPOSE_LABELS[authForm.purpose]}`,
+    `Confidence: ${authForm.confidence}%`,
     `Found ${authForm.passwordInputs.length} authentication input(s)`,
     `Parent element contains ${authForm.inputCount} total input(s)`,
     `Other inputs: ${authForm.otherInputs.map(input => input.id || input.type).join(', ')}`
@@ -364,7 +1174,7 @@ export function debugAuthDetection(html: string): any {
 
     debugInfo.allInputDetails.push(inputDetails);
 
-    if ($input.attr('type') === 'password') {
+    if ($input.attr('type')?.toLowerCase() === 'password') {
       debugInfo.passwordInputs.push(inputDetails);
     }
 
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { findAuthForms } from './htmlParser';
+import { auditAuthForms, AuditPage } from './securityAudit';
+
+const HSTS = 'max-age=31536000';
+
+// Helper function to run the parser and the audit on a page, as detection does
+function audit(html: string, page: AuditPage) {
+  return auditAuthForms(html, findAuthForms(html, page.url || undefined), page);
+}
+
+const findingIds = (html: string, page: AuditPage) => audit(html, page)[0].findings.map(finding => finding.id);
+
+describe('auditAuthForms', () => {
+  it('finds nothing wrong with a well-configured login form', () => {
+    const html = `
+      <form action="/session" method="post">
+        <input type="hidden" name="csrf_token" value="abc">
+        <input type="email" name="email" autocomplete="username">
+        <input type="password" name="password" autocomplete="current-password">
+        <button>Sign in</button>
+      </form>`;
+
+    expect(findingIds(html, { url: 'https://example.com/login', strictTransportSecurity: HSTS })).toEqual([]);
+  });
+
+  it('flags a password form on an HTTP page that submits with GET, most severe first', () => {
+    const html = '<form action="/session"><input type="password" name="p" autocomplete="off"></form>';
+    const [form] = audit(html, { url: 'http://example.com/login' });
+
+    expect(form.findings.map(finding => finding.id)).toEqual([
+      'password-over-http',
+      'action-over-http',
+      'get-with-password',
+      'password-autocomplete-off',
+    ]);
+    expect(form.findings[0]).toMatchObject({ severity: 'high', evidence: ['Page URL: http://example.com/login'] });
+  });
+
+  it('flags a POST form without a CSRF token, unless the page has a CSRF <meta> tag', () => {
+    const form = '<form action="/session" method="post"><input type="password" name="p"></form>';
+    const page = { url: 'https://example.com/login', strictTransportSecurity: HSTS };
+
+    expect(findingIds(form, page)).toEqual(['missing-csrf-token']);
+    expect(findingIds(`<meta name="csrf-token" content="abc">${form}`, page)).toEqual([]);
+  });
+
+  it('flags a form that posts to another origin', () => {
+    const html = '<form action="https://idp.example.net/login" method="post"><input type="hidden" name="_csrf"><input type="password" name="p"></form>';
+
+    expect(findingIds(html, { url: 'https://example.com/login', strictTransportSecurity: HSTS })).toEqual(['action-cross-origin']);
+  });
+
+  it('flags missing HSTS only when the response headers are known', () => {
+    const html = '<form action="/session" method="post"><input type="hidden" name="_csrf"><input type="password" name="p"></form>';
+
+    expect(findingIds(html, { url: 'https://example.com/login', strictTransportSecurity: null })).toEqual(['missing-hsts']);
+    expect(findingIds(html, { url: 'https://example.com/login' })).toEqual([]);
+  });
+
+  it('flags scripts loaded over HTTP on an HTTPS page', () => {
+    const html = `
+      <script src="http://cdn.example.com/app.js"></script>
+      <form action="/session" method="post"><input type="hidden" name="_csrf"><input type="password" name="p"></form>`;
+    const [form] = audit(html, { url: 'https://example.com/login', strictTransportSecurity: HSTS });
+
+    expect(form.findings).toMatchObject([{ id: 'mixed-content-scripts', evidence: ['Script: http://cdn.example.com/app.js'] }]);
+  });
+
+  it('flags a password field outside a <form>', () => {
+    const html = '<div class="login"><input type="email" name="email"><input type="password" name="p"><button>Log in</button></div>';
+
+    expect(findingIds(html, { url: null })).toContain('password-outside-form');
+  });
+});
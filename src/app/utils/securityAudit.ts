@@ -0,0 +1,179 @@
+import * as cheerio from 'cheerio';
+import type { AuthForm } from './htmlParser';
+
+// Security review of detected auth forms: every rule looks at one form (and
+// the page it is on) and reports a finding with the evidence when it fires.
+
+export type FindingSeverity = 'high' | 'medium' | 'low';
+
+export interface SecurityFinding {
+  id: string;
+  severity: FindingSeverity;
+  title: string;
+  explanation: string;
+  evidence: string[];
+}
+
+// What we know about the page beyond its HTML
+export interface AuditPage {
+  url: string | null; // Page URL after redirects; unknown for uploaded files
+  strictTransportSecurity?: string | null; // Header value, or undefined when the response headers are unknown
+}
+
+interface AuditContext {
+  form: AuthForm;
+  pageUrl: URL | null;
+  action: URL | null;
+  strictTransportSecurity?: string | null;
+  scriptSrcs: URL[];
+  hasCsrfMeta: boolean; // The page hands a CSRF token to its scripts in a <meta> tag
+}
+
+interface AuditRule {
+  id: string;
+  severity: FindingSeverity;
+  title: string;
+  explanation: string;
+  check: (context: AuditContext) => string[] | null; // Evidence when the rule fires
+}
+
+const SEVERITY_ORDER: Record<FindingSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+const AUDIT_RULES: AuditRule[] = [
+  {
+    id: 'password-over-http',
+    severity: 'high',
+    title: 'Password form served over HTTP',
+    explanation: 'The page itself is not encrypted, so anyone on the network can read or change the form before the password is typed.',
+    check: ({ form, pageUrl }) => form.hasPasswordInput && pageUrl?.protocol === 'http:'
+      ? [`Page URL: ${pageUrl}`]
+      : null,
+  },
+  {
+    id: 'action-over-http',
+    severity: 'high',
+    title: 'Form submits over HTTP',
+    explanation: 'The credentials are sent unencrypted, even if the page was loaded over HTTPS.',
+    check: ({ action }) => action?.protocol === 'http:' ? [`Form action: ${action}`] : null,
+  },
+  {
+    id: 'action-cross-origin',
+    severity: 'medium',
+    title: 'Form submits to a different origin',
+    explanation: 'The credentials go to another site. That is expected for a hosted identity provider, but should be confirmed.',
+    check: ({ action, pageUrl }) => action && pageUrl && action.origin !== pageUrl.origin
+      ? [`Page origin: ${pageUrl.origin}`, `Form action: ${action}`]
+      : null,
+  },
+  {
+    id: 'get-with-password',
+    severity: 'high',
+    title: 'Password sent with GET',
+    explanation: 'GET puts the password in the URL, where it ends up in browser history, server logs and Referer headers.',
+    check: ({ form }) => form.hasPasswordInput && form.submission?.method === 'GET' && form.formElement
+      ? [`method="${form.submission.method.toLowerCase()}" with ${form.passwordInputs.length} password field(s)`]
+      : null,
+  },
+  {
+    id: 'missing-csrf-token',
+    severity: 'medium',
+    title: 'No CSRF token',
+    explanation: 'The form has no hidden anti-forgery token, so another site may be able to submit it on the user\'s behalf (login CSRF) unless SameSite cookies or a header check prevent it.',
+    check: ({ form, hasCsrfMeta }) => form.submission?.method === 'POST' && !hasCsrfMeta
+      && !form.submission.hiddenFields.some(field => field.likelyCsrf)
+      ? [form.submission.hiddenFields.length > 0
+        ? `Hidden fields: ${form.submission.hiddenFields.map(field => field.name).join(', ')}`
+        : 'No hidden fields']
+      : null,
+  },
+  {
+    id: 'password-autocomplete-off',
+    severity: 'low',
+    title: 'autocomplete="off" on a password field',
+    explanation: 'Turning off autocomplete gets in the way of password managers, which pushes users toward weaker, reused passwords.',
+    check: ({ form }) => {
+      const inputs = form.passwordInputs.filter(input => input.autocomplete?.toLowerCase() === 'off');
+      return inputs.length > 0
+        ? inputs.map(input => `Password input "${input.name || input.id || 'password'}" has autocomplete="off"`)
+        : null;
+    },
+  },
+  {
+    id: 'password-outside-form',
+    severity: 'low',
+    title: 'Password field not in a <form>',
+    explanation: 'Without a <form>, password managers struggle to save and fill the credentials, and submission depends entirely on scripts.',
+    check: ({ form }) => form.hasPasswordInput && !form.formElement
+      ? [`Container: ${form.domPath || 'unknown'}`]
+      : null,
+  },
+  {
+    id: 'missing-hsts',
+    severity: 'medium',
+    title: 'No HSTS header',
+    explanation: 'Without Strict-Transport-Security, a user who types the domain or follows an http:// link can be downgraded to HTTP before reaching the login page.',
+    check: ({ pageUrl, strictTransportSecurity }) => pageUrl?.protocol === 'https:' && strictTransportSecurity === null
+      ? ['The response has no Strict-Transport-Security header']
+      : null,
+  },
+  {
+    id: 'mixed-content-scripts',
+    severity: 'high',
+    title: 'Scripts loaded over HTTP',
+    explanation: 'An HTTPS login page that loads scripts over HTTP lets a network attacker run code on the page and read the password. Browsers block these scripts, which can also break the form.',
+    check: ({ pageUrl, scriptSrcs }) => {
+      const insecure = pageUrl?.protocol === 'https:' ? scriptSrcs.filter(src => src.protocol === 'http:') : [];
+      return insecure.length > 0 ? insecure.map(src => `Script: ${src}`) : null;
+    },
+  },
+];
+
+// Helper function to parse a URL, relative to the page when it is known
+function toUrl(value: string | null | undefined, base?: URL | null): URL | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    return new URL(value, base || undefined);
+  } catch {
+    return null;
+  }
+}
+
+// Runs every rule on each form and returns the forms with their findings, most severe first
+export function auditAuthForms(html: string, authForms: AuthForm[], page: AuditPage): AuthForm[] {
+  if (authForms.length === 0) {
+    return authForms;
+  }
+
+  const $ = cheerio.load(html) as cheerio.CheerioAPI;
+  const pageUrl = toUrl(page.url);
+  const scriptSrcs = $('script[src]').toArray()
+    .map(element => toUrl($(element).attr('src'), pageUrl))
+    .filter((src): src is URL => src !== null);
+  const hasCsrfMeta = $('meta[name]').toArray()
+    .some(element => /csrf|xsrf/i.test($(element).attr('name') || ''));
+
+  return authForms.map(form => {
+    const context: AuditContext = {
+      form,
+      pageUrl,
+      action: toUrl(form.submission?.action, pageUrl),
+      strictTransportSecurity: page.strictTransportSecurity,
+      scriptSrcs,
+      hasCsrfMeta,
+    };
+
+    const findings = AUDIT_RULES
+      .map(rule => {
+        const evidence = rule.check(context);
+        return evidence
+          ? { id: rule.id, severity: rule.severity, title: rule.title, explanation: rule.explanation, evidence }
+          : null;
+      })
+      .filter((finding): finding is SecurityFinding => finding !== null)
+      .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+    return { ...form, findings };
+  });
+}
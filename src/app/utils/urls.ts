@@ -0,0 +1,18 @@
+// URL helpers shared by the API routes and the UI
+
+// Tells whether two hosts belong to the same site
+// (www.example.com, example.com and login.example.com all do)
+export function isSameSite(host: string, otherHost: string): boolean {
+  const a = host.toLowerCase().replace(/^www\./, '');
+  const b = otherHost.toLowerCase().replace(/^www\./, '');
+  return a === b || a.endsWith(`.${b}`) || b.endsWith(`.${a}`);
+}
+
+// Returns the hostname of a URL, or the input itself when it does not parse
+export function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}